@@ -7,6 +7,8 @@ import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import SiteHeader from "./components/layout/SiteHeader";
 import Admin from "./pages/Admin";
+import AdminLogin from "./pages/AdminLogin";
+import RequireAdmin from "./components/auth/RequireAdmin";
 import SeriesDetail from "./pages/SeriesDetail";
 import { ThemeProvider } from "next-themes";
 
@@ -22,8 +24,10 @@ const App = () => (
           <SiteHeader />
           <Routes>
             <Route path="/" element={<Index />} />
-            <Route path="/series/:id" element={<SeriesDetail />} />
-            <Route path="/admin" element={<Admin />} />
+            <Route path="/series/:slug" element={<SeriesDetail />} />
+            <Route path="/series/:slug/episode/:episodeId" element={<SeriesDetail />} />
+            <Route path="/admin/login" element={<AdminLogin />} />
+            <Route path="/admin" element={<RequireAdmin><Admin /></RequireAdmin>} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -0,0 +1,339 @@
+import { useState, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO, subDays } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { CalendarIcon, Download, X } from "lucide-react";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { completionRate, fetchAnalytics, type AnalyticsData } from "@/lib/analytics";
+import { downloadCsv, toCsv, type CsvColumn } from "@/lib/csv";
+import { formatDuration } from "@/lib/duration";
+import EpisodePicker from "./EpisodePicker";
+import SeriesPicker from "./SeriesPicker";
+
+const PRESETS = [7, 30, 90] as const;
+
+const CATEGORY_LABELS: Record<string, string> = {
+  donghua: "Donghua",
+  anime: "Anime",
+  movie: "Movie",
+  cartoon: "Cartoon",
+};
+
+const viewsConfig = { views: { label: "Views", color: "hsl(var(--primary))" } } satisfies ChartConfig;
+const commentsConfig = { comments: { label: "Comments", color: "hsl(var(--primary))" } } satisfies ChartConfig;
+const topSeriesConfig = { views: { label: "Views", color: "hsl(var(--primary))" } } satisfies ChartConfig;
+const ratingsConfig = { series: { label: "Series", color: "hsl(var(--primary))" } } satisfies ChartConfig;
+
+const toDay = (date: Date) => format(date, "yyyy-MM-dd");
+const shortDay = (day: string) => format(parseISO(day), "MMM d");
+
+const lastDays = (days: number): DateRange => ({ from: subDays(new Date(), days - 1), to: new Date() });
+
+interface AnalyticsCardProps {
+  title: string;
+  description: string;
+  onExport?: () => void;
+  className?: string;
+  children: ReactNode;
+}
+
+const AnalyticsCard = ({ title, description, onExport, className, children }: AnalyticsCardProps) => (
+  <Card className={className}>
+    <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+      <div className="grid gap-1.5">
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </div>
+      {onExport && (
+        <Button variant="outline" size="sm" onClick={onExport}>
+          <Download className="mr-2 h-4 w-4" />
+          CSV
+        </Button>
+      )}
+    </CardHeader>
+    <CardContent>{children}</CardContent>
+  </Card>
+);
+
+const AnalyticsPanel = () => {
+  const [range, setRange] = useState<DateRange | undefined>(() => lastDays(30));
+  const [seriesId, setSeriesId] = useState("");
+  const [episodeId, setEpisodeId] = useState("");
+  const [category, setCategory] = useState("donghua");
+
+  const from = range?.from ? toDay(range.from) : undefined;
+  const to = range?.to ? toDay(range.to) : from;
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["admin-analytics", from, to, seriesId, episodeId],
+    queryFn: () => fetchAnalytics({ from: from!, to: to!, seriesId, episodeId }),
+    enabled: !!from && !!to,
+  });
+
+  const exportCsv = <T,>(name: keyof AnalyticsData, rows: T[], columns: CsvColumn<T>[]) =>
+    downloadCsv(`${name}_${from}_${to}.csv`, toCsv(rows, columns));
+
+  const scope = episodeId ? "this episode" : seriesId ? "this series" : "all series";
+  const topSeries = data?.top_series.filter((s) => s.category === category) ?? [];
+  const totalViews = data?.views_by_day.reduce((sum, d) => sum + d.views, 0) ?? 0;
+  const totalComments = data?.comments_by_day.reduce((sum, d) => sum + d.comments, 0) ?? 0;
+
+  return (
+    <div className="grid gap-6">
+      <Card>
+        <CardContent className="flex flex-col gap-4 pt-6 lg:flex-row lg:items-end">
+          <div className="grid gap-2">
+            <Label>Date range</Label>
+            <div className="flex flex-wrap gap-2">
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="w-64 justify-start font-normal">
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {range?.from
+                      ? `${format(range.from, "MMM d, yyyy")} – ${format(range.to ?? range.from, "MMM d, yyyy")}`
+                      : "Pick a range"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="range"
+                    numberOfMonths={2}
+                    selected={range}
+                    onSelect={setRange}
+                    disabled={{ after: new Date() }}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+              {PRESETS.map((days) => (
+                <Button key={days} variant="secondary" size="sm" className="h-10" onClick={() => setRange(lastDays(days))}>
+                  {days}d
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className="grid flex-1 gap-2">
+            <Label htmlFor="analytics-series">Series</Label>
+            <div className="flex gap-2">
+              <SeriesPicker
+                id="analytics-series"
+                value={seriesId}
+                placeholder="All series"
+                onChange={(id) => {
+                  setSeriesId(id);
+                  setEpisodeId("");
+                }}
+              />
+              {seriesId && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Clear series"
+                  onClick={() => {
+                    setSeriesId("");
+                    setEpisodeId("");
+                  }}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+          <div className="grid flex-1 gap-2">
+            <Label htmlFor="analytics-episode">Episode</Label>
+            <div className="flex gap-2">
+              <EpisodePicker id="analytics-episode" seriesId={seriesId} value={episodeId} onChange={setEpisodeId} />
+              {episodeId && (
+                <Button variant="ghost" size="icon" aria-label="Clear episode" onClick={() => setEpisodeId("")}>
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && <p className="text-sm text-destructive">Failed to load analytics: {error.message}</p>}
+      {isLoading && <p className="text-sm text-muted-foreground">Loading analytics...</p>}
+
+      {data && (
+        <div className="grid gap-6 md:grid-cols-2">
+          <AnalyticsCard
+            title="Views"
+            description={`${totalViews} counted views for ${scope}`}
+            onExport={() =>
+              exportCsv("views_by_day", data.views_by_day, [
+                { header: "day", value: (r) => r.day },
+                { header: "views", value: (r) => r.views },
+              ])
+            }
+          >
+            <ChartContainer config={viewsConfig} className="aspect-auto h-64 w-full">
+              <AreaChart data={data.views_by_day}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="day" tickFormatter={shortDay} tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={shortDay} />} />
+                <Area dataKey="views" type="monotone" fill="var(--color-views)" fillOpacity={0.2} stroke="var(--color-views)" />
+              </AreaChart>
+            </ChartContainer>
+          </AnalyticsCard>
+
+          <AnalyticsCard
+            title="Comments"
+            description={`${totalComments} new comments for ${scope}`}
+            onExport={() =>
+              exportCsv("comments_by_day", data.comments_by_day, [
+                { header: "day", value: (r) => r.day },
+                { header: "comments", value: (r) => r.comments },
+              ])
+            }
+          >
+            <ChartContainer config={commentsConfig} className="aspect-auto h-64 w-full">
+              <BarChart data={data.comments_by_day}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="day" tickFormatter={shortDay} tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={shortDay} />} />
+                <Bar dataKey="comments" fill="var(--color-comments)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </AnalyticsCard>
+
+          <AnalyticsCard
+            title="Top Series"
+            description="Most viewed series per category in the range"
+            onExport={() =>
+              exportCsv("top_series", data.top_series, [
+                { header: "category", value: (r) => r.category },
+                { header: "series_id", value: (r) => r.series_id },
+                { header: "title", value: (r) => r.title },
+                { header: "views", value: (r) => r.views },
+              ])
+            }
+          >
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger className="mb-4 w-40" aria-label="Category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {topSeries.length > 0 ? (
+              <ChartContainer config={topSeriesConfig} className="aspect-auto h-64 w-full">
+                <BarChart data={topSeries} layout="vertical" margin={{ left: 8 }}>
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                  <YAxis type="category" dataKey="title" tickLine={false} axisLine={false} width={120} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="views" fill="var(--color-views)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            ) : (
+              <p className="py-8 text-center text-sm text-muted-foreground">No views for this category in the range.</p>
+            )}
+          </AnalyticsCard>
+
+          <AnalyticsCard
+            title="Rating Distribution"
+            description="Series by rounded average rating (all time)"
+            onExport={() =>
+              exportCsv("rating_distribution", data.rating_distribution, [
+                { header: "rating", value: (r) => r.rating },
+                { header: "series", value: (r) => r.series },
+              ])
+            }
+          >
+            <ChartContainer config={ratingsConfig} className="aspect-auto h-64 w-full">
+              <BarChart data={data.rating_distribution}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="rating" tickFormatter={(r) => `${r} ★`} tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(r) => `${r} ★`} />} />
+                <Bar dataKey="series" fill="var(--color-series)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </AnalyticsCard>
+
+          <AnalyticsCard
+            title="Completion Rates"
+            description="Share of plays that reached the end, most played episodes first"
+            className="md:col-span-2"
+            onExport={() =>
+              exportCsv("completion", data.completion, [
+                { header: "series_id", value: (r) => r.series_id },
+                { header: "series_title", value: (r) => r.series_title },
+                { header: "episode_id", value: (r) => r.episode_id },
+                { header: "episode_title", value: (r) => r.episode_title },
+                { header: "season_number", value: (r) => r.season_number },
+                { header: "episode_number", value: (r) => r.episode_number },
+                { header: "play_starts", value: (r) => r.play_starts },
+                { header: "completions", value: (r) => r.completions },
+                { header: "completion_rate", value: (r) => completionRate(r).toFixed(3) },
+                { header: "watch_seconds", value: (r) => r.watch_seconds },
+              ])
+            }
+          >
+            {data.completion.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Episode</TableHead>
+                    <TableHead className="text-right">Plays</TableHead>
+                    <TableHead className="text-right">Completed</TableHead>
+                    <TableHead className="w-48">Completion</TableHead>
+                    <TableHead className="text-right">Watch time</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.completion.map((row) => {
+                    const rate = completionRate(row);
+                    return (
+                      <TableRow key={row.episode_id}>
+                        <TableCell>
+                          <div className="font-medium">{row.episode_title}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {row.series_title}
+                            {row.episode_number != null &&
+                              ` · ${row.season_number != null ? `S${row.season_number} · ` : ""}E${row.episode_number}`}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{row.play_starts}</TableCell>
+                        <TableCell className="text-right">{row.completions}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Progress value={rate * 100} className="h-2" />
+                            <span className="w-10 text-right text-xs">{Math.round(rate * 100)}%</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{formatDuration(row.watch_seconds)}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="py-8 text-center text-sm text-muted-foreground">No playback recorded in the range.</p>
+            )}
+          </AnalyticsCard>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalyticsPanel;
@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { fromDateTimeLocal, toDateTimeLocal } from "@/lib/datetime";
+import { extractDailymotionId, extractYouTubeId } from "@/lib/video-ids";
+import SeriesPicker from "./SeriesPicker";
+
+interface EpisodeRow {
+  id: string;
+  title: string;
+  description: string | null;
+  season_number: number | null;
+  episode_number: number | null;
+  dailymotion_video_id: string | null;
+  youtube_video_id: string | null;
+  published_at: string | null;
+}
+
+// Editable form values; numbers and dates are kept as raw input strings until save
+interface EpisodeDraft {
+  title: string;
+  description: string;
+  season_number: string;
+  episode_number: string;
+  dailymotion_video_id: string;
+  youtube_video_id: string;
+  published_at: string;
+}
+
+const toDraft = (ep: EpisodeRow): EpisodeDraft => ({
+  title: ep.title,
+  description: ep.description ?? "",
+  season_number: ep.season_number?.toString() ?? "",
+  episode_number: ep.episode_number?.toString() ?? "",
+  dailymotion_video_id: ep.dailymotion_video_id ?? "",
+  youtube_video_id: ep.youtube_video_id ?? "",
+  published_at: toDateTimeLocal(ep.published_at),
+});
+
+const fromDraft = (draft: EpisodeDraft) => ({
+  title: draft.title.trim(),
+  description: draft.description.trim() || null,
+  season_number: draft.season_number === "" ? null : Number(draft.season_number),
+  episode_number: draft.episode_number === "" ? null : Number(draft.episode_number),
+  dailymotion_video_id: draft.dailymotion_video_id.trim() ? extractDailymotionId(draft.dailymotion_video_id) : null,
+  youtube_video_id: draft.youtube_video_id.trim() ? extractYouTubeId(draft.youtube_video_id) : null,
+  published_at: fromDateTimeLocal(draft.published_at),
+});
+
+const diffEpisode = (ep: EpisodeRow, draft: EpisodeDraft) => {
+  const next = fromDraft(draft);
+  const changes: Record<string, string | number | null> = {};
+  (Object.keys(next) as Array<keyof typeof next>).forEach((field) => {
+    const before = field === "published_at" ? fromDateTimeLocal(toDateTimeLocal(ep.published_at)) : ep[field];
+    if ((before ?? null) !== next[field]) changes[field] = next[field];
+  });
+  return changes;
+};
+
+const EpisodeManagerCard = () => {
+  const { toast } = useToast();
+  const [seriesId, setSeriesId] = useState("");
+  const [drafts, setDrafts] = useState<Record<string, EpisodeDraft>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const { data: episodes, isLoading, refetch } = useQuery({
+    queryKey: ["admin-episodes", seriesId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("episodes")
+        .select("id,title,description,season_number,episode_number,dailymotion_video_id,youtube_video_id,published_at")
+        .eq("series_id", seriesId)
+        .order("season_number", { ascending: true, nullsFirst: true })
+        .order("episode_number", { ascending: true, nullsFirst: true })
+        .order("created_at", { ascending: true });
+      if (error) throw error;
+      return (data ?? []) as EpisodeRow[];
+    },
+    enabled: !!seriesId,
+  });
+
+  const handleSelectSeries = (id: string) => {
+    setDrafts({});
+    setSeriesId(id);
+  };
+
+  const draftFor = (ep: EpisodeRow) => drafts[ep.id] ?? toDraft(ep);
+
+  const updateDraft = (ep: EpisodeRow, field: keyof EpisodeDraft, value: string) => {
+    setDrafts((prev) => ({ ...prev, [ep.id]: { ...(prev[ep.id] ?? toDraft(ep)), [field]: value } }));
+  };
+
+  const handleSave = async (ep: EpisodeRow) => {
+    const changes = diffEpisode(ep, draftFor(ep));
+    if (Object.keys(changes).length === 0) return;
+    if ("title" in changes && !changes.title) {
+      toast({ title: "Title required", description: "An episode cannot have an empty title" });
+      return;
+    }
+    setSavingId(ep.id);
+    try {
+      const { error } = await supabase.rpc("admin_update_episode", {
+        p_episode_id: ep.id,
+        p_changes: changes,
+      });
+      if (error) throw error;
+      await refetch();
+      setDrafts((prev) => {
+        const next = { ...prev };
+        delete next[ep.id];
+        return next;
+      });
+      toast({ title: "Episode updated", description: draftFor(ep).title });
+    } catch (err) {
+      toast({ title: "Failed to update episode", description: err.message || String(err), variant: "destructive" });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <CardTitle>Manage Episodes</CardTitle>
+        <CardDescription>Edit numbering, titles, descriptions, provider IDs and publish dates of a series' episodes inline</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-4">
+          <div className="grid gap-2 md:max-w-xl">
+            <Label htmlFor="manage-series-id">Series</Label>
+            <SeriesPicker id="manage-series-id" value={seriesId} onChange={handleSelectSeries} />
+          </div>
+
+          {isLoading && <p className="text-sm text-muted-foreground">Loading episodes...</p>}
+
+          {seriesId && episodes && episodes.length === 0 && (
+            <p className="text-sm text-muted-foreground">This series has no episodes yet.</p>
+          )}
+
+          {episodes && episodes.length > 0 && (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-20">Season</TableHead>
+                    <TableHead className="w-20">Episode</TableHead>
+                    <TableHead className="min-w-48">Title</TableHead>
+                    <TableHead className="min-w-48">Description</TableHead>
+                    <TableHead className="min-w-32">Dailymotion ID</TableHead>
+                    <TableHead className="min-w-32">YouTube ID</TableHead>
+                    <TableHead className="min-w-48">Published</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {episodes.map((ep) => {
+                    const draft = draftFor(ep);
+                    const dirty = Object.keys(diffEpisode(ep, draft)).length > 0;
+                    return (
+                      <TableRow key={ep.id}>
+                        <TableCell>
+                          <Input type="number" min={0} aria-label="Season number" value={draft.season_number} onChange={(e) => updateDraft(ep, "season_number", e.target.value)} />
+                        </TableCell>
+                        <TableCell>
+                          <Input type="number" min={0} aria-label="Episode number" value={draft.episode_number} onChange={(e) => updateDraft(ep, "episode_number", e.target.value)} />
+                        </TableCell>
+                        <TableCell>
+                          <Input aria-label="Title" value={draft.title} onChange={(e) => updateDraft(ep, "title", e.target.value)} />
+                        </TableCell>
+                        <TableCell>
+                          <Input aria-label="Description" value={draft.description} onChange={(e) => updateDraft(ep, "description", e.target.value)} />
+                        </TableCell>
+                        <TableCell>
+                          <Input aria-label="Dailymotion video ID" value={draft.dailymotion_video_id} onChange={(e) => updateDraft(ep, "dailymotion_video_id", e.target.value)} />
+                        </TableCell>
+                        <TableCell>
+                          <Input aria-label="YouTube video ID" value={draft.youtube_video_id} onChange={(e) => updateDraft(ep, "youtube_video_id", e.target.value)} />
+                        </TableCell>
+                        <TableCell>
+                          <Input type="datetime-local" aria-label="Publish date" value={draft.published_at} onChange={(e) => updateDraft(ep, "published_at", e.target.value)} />
+                        </TableCell>
+                        <TableCell>
+                          <Button size="sm" onClick={() => handleSave(ep)} disabled={!dirty || savingId === ep.id}>
+                            {savingId === ep.id ? "Saving..." : "Save"}
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EpisodeManagerCard;
@@ -0,0 +1,178 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowDown, ArrowUp, ChevronsDown, GripVertical } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { cn } from "@/lib/utils";
+import SeriesPicker from "./SeriesPicker";
+
+interface OrderItem {
+  id: string;
+  title: string;
+  season: string;
+}
+
+// Episode numbers restart at 1 in every season, mirroring admin_reorder_episodes
+const previewNumbers = (items: OrderItem[]) => {
+  const counters: Record<string, number> = {};
+  return items.map((item) => {
+    counters[item.season] = (counters[item.season] ?? 0) + 1;
+    return counters[item.season];
+  });
+};
+
+const EpisodeOrderCard = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [seriesId, setSeriesId] = useState("");
+  const [items, setItems] = useState<OrderItem[]>([]);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: episodes, isLoading } = useQuery({
+    queryKey: ["admin-episodes", seriesId, "order"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("episodes")
+        .select("id,title,season_number,episode_number")
+        .eq("series_id", seriesId)
+        .order("season_number", { ascending: true, nullsFirst: true })
+        .order("episode_number", { ascending: true, nullsFirst: true })
+        .order("created_at", { ascending: true });
+      if (error) throw error;
+      return data ?? [];
+    },
+    enabled: !!seriesId,
+  });
+
+  useEffect(() => {
+    if (!episodes) return;
+    setItems(episodes.map((ep) => ({ id: ep.id, title: ep.title, season: ep.season_number?.toString() ?? "1" })));
+    // Unnumbered episodes can be saved as-is to persist their current order
+    setIsDirty(episodes.some((ep) => ep.season_number == null || ep.episode_number == null));
+  }, [episodes]);
+
+  // Drop the previous series' episodes so they can't be saved against the new one
+  const handleSelectSeries = (id: string) => {
+    if (id === seriesId) return;
+    setSeriesId(id);
+    setItems([]);
+    setDragIndex(null);
+    setIsDirty(false);
+  };
+
+  const move = (from: number, to: number) => {
+    if (from === to || to < 0 || to >= items.length) return;
+    setItems((prev) => {
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+    setIsDirty(true);
+  };
+
+  const setSeason = (index: number, season: string, fillDown = false) => {
+    setItems((prev) => prev.map((item, i) => (i === index || (fillDown && i > index) ? { ...item, season } : item)));
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    if (items.some((item) => item.season === "" || Number(item.season) < 0)) {
+      toast({ title: "Season required", description: "Every episode needs a season number of 0 or more" });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const { data, error } = await supabase.rpc("admin_reorder_episodes", {
+        p_series_id: seriesId,
+        p_order: items.map((item) => ({ id: item.id, season_number: Number(item.season) })),
+      });
+      if (error) throw error;
+      toast({ title: "Order saved", description: `Renumbered ${data} episodes` });
+      queryClient.invalidateQueries({ queryKey: ["admin-episodes"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-episode-options"] });
+    } catch (err) {
+      toast({ title: "Failed to save order", description: err.message || String(err), variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const numbers = previewNumbers(items);
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <CardTitle>Reorder Episodes</CardTitle>
+        <CardDescription>Drag episodes into playback order and assign seasons, then save to renumber the whole series at once</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-4">
+          <div className="grid gap-2 md:max-w-xl">
+            <Label htmlFor="order-series-id">Series</Label>
+            <SeriesPicker id="order-series-id" value={seriesId} onChange={handleSelectSeries} />
+          </div>
+
+          {isLoading && <p className="text-sm text-muted-foreground">Loading episodes...</p>}
+
+          {items.length > 0 && (
+            <>
+              <ol className="max-h-[32rem] divide-y overflow-auto rounded-md border">
+                {items.map((item, index) => (
+                  <li
+                    key={item.id}
+                    draggable
+                    onDragStart={() => setDragIndex(index)}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={() => {
+                      if (dragIndex !== null) move(dragIndex, index);
+                      setDragIndex(null);
+                    }}
+                    onDragEnd={() => setDragIndex(null)}
+                    className={cn("flex items-center gap-3 bg-background p-2", dragIndex === index && "opacity-50")}
+                  >
+                    <GripVertical className="h-4 w-4 shrink-0 cursor-grab text-muted-foreground" />
+                    <span className="w-20 shrink-0 text-xs text-muted-foreground">
+                      S{item.season || "?"}E{numbers[index]}
+                    </span>
+                    <span className="flex-1 truncate text-sm">{item.title}</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      aria-label="Season number"
+                      className="h-8 w-20"
+                      value={item.season}
+                      onChange={(e) => setSeason(index, e.target.value)}
+                    />
+                    <Button variant="ghost" size="icon" className="h-8 w-8" title="Use this season for all following episodes" onClick={() => setSeason(index, item.season, true)}>
+                      <ChevronsDown className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Move up" onClick={() => move(index, index - 1)} disabled={index === 0}>
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Move down" onClick={() => move(index, index + 1)} disabled={index === items.length - 1}>
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ol>
+              <div className="flex gap-2">
+                <Button onClick={handleSave} disabled={!isDirty || isSaving || !episodes}>
+                  {isSaving ? "Saving..." : "Save Order"}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EpisodeOrderCard;
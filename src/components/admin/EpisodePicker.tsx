@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { supabase } from "@/integrations/supabase/client";
+import { cn } from "@/lib/utils";
+
+interface EpisodePickerProps {
+  id?: string;
+  seriesId: string;
+  value: string;
+  onChange: (episodeId: string) => void;
+  placeholder?: string;
+}
+
+const episodeCode = (season: number | null, episode: number | null) => {
+  if (season == null && episode == null) return "";
+  return `${season != null ? `S${season}` : ""}${episode != null ? `E${episode}` : ""}`;
+};
+
+const EpisodePicker = ({ id, seriesId, value, onChange, placeholder = "Select episode..." }: EpisodePickerProps) => {
+  const [open, setOpen] = useState(false);
+
+  const { data: episodes, isLoading } = useQuery({
+    queryKey: ["admin-episode-options", seriesId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("episodes")
+        .select("id,title,season_number,episode_number")
+        .eq("series_id", seriesId)
+        .order("season_number", { ascending: true, nullsFirst: true })
+        .order("episode_number", { ascending: true, nullsFirst: true })
+        .order("created_at", { ascending: true });
+      if (error) throw error;
+      return data ?? [];
+    },
+    enabled: !!seriesId,
+  });
+
+  const selected = episodes?.find((ep) => ep.id === value);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          disabled={!seriesId}
+          className="w-full justify-between font-normal"
+        >
+          <span className={cn("truncate", !selected && "text-muted-foreground")}>
+            {selected
+              ? selected.title
+              : !seriesId
+                ? "Select a series first"
+                : isLoading
+                  ? "Loading episodes..."
+                  : placeholder}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search episodes..." />
+          <CommandList>
+            <CommandEmpty>No episodes found.</CommandEmpty>
+            <CommandGroup>
+              {episodes?.map((ep) => {
+                const code = episodeCode(ep.season_number, ep.episode_number);
+                return (
+                  <CommandItem
+                    key={ep.id}
+                    value={`${code} ${ep.title} ${ep.id}`}
+                    onSelect={() => {
+                      onChange(ep.id);
+                      setOpen(false);
+                    }}
+                  >
+                    <Check className={cn("mr-2 h-4 w-4", value === ep.id ? "opacity-100" : "opacity-0")} />
+                    {code && <span className="mr-2 text-xs text-muted-foreground">{code}</span>}
+                    <span className="flex-1 truncate">{ep.title}</span>
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default EpisodePicker;
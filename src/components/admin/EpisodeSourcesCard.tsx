@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { getProvider, listProviders, type EpisodeMirror } from "@/components/player/providers";
+import EpisodePicker from "./EpisodePicker";
+import SeriesPicker from "./SeriesPicker";
+
+// Editable form values; priority is kept as the raw input string until save
+interface SourceDraft {
+  provider: string;
+  video_id: string;
+  priority: string;
+  language: string;
+  label: string;
+}
+
+const NEW_SOURCE = "new";
+
+const toDraft = (mirror: EpisodeMirror): SourceDraft => ({
+  provider: mirror.provider,
+  video_id: mirror.video_id,
+  priority: String(mirror.priority),
+  language: mirror.language ?? "",
+  label: mirror.label ?? "",
+});
+
+const emptyDraft = (priority: number): SourceDraft => ({
+  provider: listProviders()[0]?.id ?? "",
+  video_id: "",
+  priority: String(priority),
+  language: "",
+  label: "",
+});
+
+const EpisodeSourcesCard = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [seriesId, setSeriesId] = useState("");
+  const [episodeId, setEpisodeId] = useState("");
+  const [drafts, setDrafts] = useState<Record<string, SourceDraft>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const { data: mirrors, isLoading, refetch } = useQuery({
+    queryKey: ["admin-episode-sources", episodeId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("episode_sources")
+        .select("id,provider,video_id,priority,language,label")
+        .eq("episode_id", episodeId)
+        .order("priority", { ascending: true })
+        .order("created_at", { ascending: true });
+      if (error) throw error;
+      return (data ?? []) as EpisodeMirror[];
+    },
+    enabled: !!episodeId,
+  });
+
+  const handleSelectSeries = (id: string) => {
+    setSeriesId(id);
+    setEpisodeId("");
+    setDrafts({});
+  };
+
+  const handleSelectEpisode = (id: string) => {
+    setEpisodeId(id);
+    setDrafts({});
+  };
+
+  const nextPriority = mirrors && mirrors.length > 0 ? mirrors[mirrors.length - 1].priority + 1 : 0;
+  const draftFor = (key: string) =>
+    drafts[key] ?? (key === NEW_SOURCE ? emptyDraft(nextPriority) : toDraft(mirrors!.find((m) => m.id === key)!));
+
+  const updateDraft = (key: string, field: keyof SourceDraft, value: string) => {
+    setDrafts((prev) => ({ ...prev, [key]: { ...draftFor(key), [field]: value } }));
+  };
+
+  const handleSave = async (key: string) => {
+    const draft = draftFor(key);
+    const provider = getProvider(draft.provider);
+    const priority = Number(draft.priority);
+    if (!provider || !draft.video_id.trim()) {
+      toast({ title: "Video required", description: "Pick a provider and enter a video ID or URL" });
+      return;
+    }
+    if (draft.priority === "" || !Number.isInteger(priority)) {
+      toast({ title: "Invalid priority", description: "Use a whole number; lower plays first" });
+      return;
+    }
+    setSavingId(key);
+    try {
+      const { error } = await supabase.rpc("admin_save_episode_source", {
+        p_episode_id: episodeId,
+        p_provider: provider.id,
+        p_video_id: provider.parseVideoId(draft.video_id),
+        p_priority: priority,
+        p_language: draft.language,
+        p_label: draft.label,
+        p_source_id: key === NEW_SOURCE ? undefined : key,
+      });
+      if (error) throw error;
+      await refetch();
+      // Mirrors from the legacy video columns keep those columns in step
+      queryClient.invalidateQueries({ queryKey: ["admin-episodes"] });
+      setDrafts((prev) => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+      toast({ title: key === NEW_SOURCE ? "Mirror added" : "Mirror updated", description: `${provider.label} ${draft.label}`.trim() });
+    } catch (err) {
+      toast({ title: "Failed to save mirror", description: err.message || String(err), variant: "destructive" });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleDelete = async (mirror: EpisodeMirror) => {
+    setSavingId(mirror.id);
+    try {
+      const { error } = await supabase.rpc("admin_delete_episode_source", { p_source_id: mirror.id });
+      if (error) throw error;
+      await refetch();
+      queryClient.invalidateQueries({ queryKey: ["admin-episodes"] });
+      toast({ title: "Mirror deleted" });
+    } catch (err) {
+      toast({ title: "Failed to delete mirror", description: err.message || String(err), variant: "destructive" });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const renderRow = (key: string, mirror?: EpisodeMirror) => {
+    const draft = draftFor(key);
+    return (
+      <TableRow key={key}>
+        <TableCell>
+          <Select value={draft.provider} onValueChange={(v) => updateDraft(key, "provider", v)}>
+            <SelectTrigger aria-label="Provider">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {listProviders().map((p) => (
+                <SelectItem key={p.id} value={p.id}>
+                  {p.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </TableCell>
+        <TableCell>
+          <Input aria-label="Video ID or URL" value={draft.video_id} onChange={(e) => updateDraft(key, "video_id", e.target.value)} />
+        </TableCell>
+        <TableCell>
+          <Input type="number" aria-label="Priority" value={draft.priority} onChange={(e) => updateDraft(key, "priority", e.target.value)} />
+        </TableCell>
+        <TableCell>
+          <Input aria-label="Language" placeholder="en" value={draft.language} onChange={(e) => updateDraft(key, "language", e.target.value)} />
+        </TableCell>
+        <TableCell>
+          <Input aria-label="Label" placeholder="Sub, Dub, HD..." value={draft.label} onChange={(e) => updateDraft(key, "label", e.target.value)} />
+        </TableCell>
+        <TableCell>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={() => handleSave(key)} disabled={savingId === key || (mirror && !drafts[key])}>
+              {savingId === key ? "Saving..." : mirror ? "Save" : "Add"}
+            </Button>
+            {mirror && (
+              <Button
+                size="sm"
+                variant="ghost"
+                aria-label="Delete mirror"
+                title={mirrors?.length === 1 ? "An episode needs at least one mirror" : undefined}
+                onClick={() => handleDelete(mirror)}
+                disabled={savingId === key || mirrors?.length === 1}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </TableCell>
+      </TableRow>
+    );
+  };
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <CardTitle>Episode Mirrors</CardTitle>
+        <CardDescription>
+          Add alternative sources for an episode. Viewers get the lowest priority first and fall back to the next when one fails
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="grid gap-2">
+              <Label htmlFor="mirrors-series-id">Series</Label>
+              <SeriesPicker id="mirrors-series-id" value={seriesId} onChange={handleSelectSeries} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="mirrors-episode-id">Episode</Label>
+              <EpisodePicker id="mirrors-episode-id" seriesId={seriesId} value={episodeId} onChange={handleSelectEpisode} />
+            </div>
+          </div>
+
+          {isLoading && <p className="text-sm text-muted-foreground">Loading mirrors...</p>}
+
+          {episodeId && mirrors && (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-36">Provider</TableHead>
+                    <TableHead className="min-w-48">Video</TableHead>
+                    <TableHead className="w-24">Priority</TableHead>
+                    <TableHead className="w-24">Language</TableHead>
+                    <TableHead className="min-w-32">Label</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {mirrors.map((mirror) => renderRow(mirror.id, mirror))}
+                  {renderRow(NEW_SOURCE)}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EpisodeSourcesCard;
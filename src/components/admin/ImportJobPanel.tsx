@@ -0,0 +1,89 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import type { ImportJob } from "@/lib/import-jobs";
+
+interface ImportJobPanelProps {
+  job: ImportJob;
+  isRunning: boolean;
+  onRetry: () => void;
+}
+
+const ImportJobPanel = ({ job, isRunning, onRetry }: ImportJobPanelProps) => {
+  const processed = job.succeeded_count + job.failed_count;
+  const percent = job.total_count > 0 ? Math.round((processed / job.total_count) * 100) : 0;
+  // A job left running without a client driving it stopped on an error; retrying resumes it
+  const isStalled = job.status === "running" && !isRunning;
+
+  // Refetched whenever the failure count changes so the table follows the progress bar
+  const { data: failures } = useQuery({
+    queryKey: ["admin-import-job-failures", job.id, job.failed_count],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("import_job_items")
+        .select("id,position,video_id,title,error,attempts")
+        .eq("job_id", job.id)
+        .eq("status", "failed")
+        .order("position", { ascending: true });
+      if (error) throw error;
+      return data ?? [];
+    },
+    enabled: job.failed_count > 0,
+  });
+
+  return (
+    <div className="grid gap-3 rounded-md border p-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">
+          {job.status === "completed" ? "Import finished" : isStalled ? "Import interrupted" : "Importing..."}
+        </span>
+        <span className="text-muted-foreground">
+          {processed} of {job.total_count} · {job.succeeded_count} added · {job.failed_count} failed
+        </span>
+      </div>
+      <Progress value={percent} aria-label="Import progress" />
+
+      {job.failed_count > 0 && failures && failures.length > 0 && (
+        <div className="max-h-60 overflow-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">#</TableHead>
+                <TableHead>Video</TableHead>
+                <TableHead>Error</TableHead>
+                <TableHead className="w-20 text-right">Attempts</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {failures.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell>{item.position}</TableCell>
+                  <TableCell>
+                    <div className="font-medium">{item.title}</div>
+                    <div className="text-xs text-muted-foreground">{item.video_id}</div>
+                  </TableCell>
+                  <TableCell className="text-sm text-destructive">{item.error}</TableCell>
+                  <TableCell className="text-right">{item.attempts}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {(isStalled || (job.failed_count > 0 && !isRunning)) && (
+        <div>
+          <Button variant="outline" onClick={onRetry}>
+            {isStalled
+              ? `Resume Import (${job.total_count - job.succeeded_count} left)`
+              : `Retry Failed (${job.failed_count})`}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportJobPanel;
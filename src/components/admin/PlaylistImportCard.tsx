@@ -0,0 +1,213 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { parseEpisodeNumbers } from "@/lib/episode-numbering";
+import { runImportJob, type ImportJob } from "@/lib/import-jobs";
+import { fetchPlaylistVideos, PROVIDER_LABELS, toEpisodeMetadata, type PlaylistVideo, type VideoProvider } from "@/lib/playlists";
+import ImportJobPanel from "./ImportJobPanel";
+import PlaylistPreviewList, { type NumberingDraft } from "./PlaylistPreviewList";
+import PlaylistSyncPanel from "./PlaylistSyncPanel";
+import SeriesPicker from "./SeriesPicker";
+
+interface PlaylistImportCardProps {
+  provider: VideoProvider;
+  seriesId: string;
+  onSeriesChange: (seriesId: string) => void;
+}
+
+const PLACEHOLDERS: Record<VideoProvider, string> = {
+  dailymotion: "https://www.dailymotion.com/playlist/x85adw",
+  youtube: "https://www.youtube.com/playlist?list=PL...",
+};
+
+const PlaylistImportCard = ({ provider, seriesId, onSeriesChange }: PlaylistImportCardProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [url, setUrl] = useState("");
+  const [mode, setMode] = useState<"import" | "sync">("import");
+  const [videos, setVideos] = useState<PlaylistVideo[]>([]);
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [overrides, setOverrides] = useState<Record<string, NumberingDraft>>({});
+  const [isFetching, setIsFetching] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [job, setJob] = useState<ImportJob | null>(null);
+  const label = PROVIDER_LABELS[provider];
+  const idPrefix = provider === "dailymotion" ? "dm" : "yt";
+
+  // Per-series override for detecting season/episode numbers in imported titles
+  const { data: titlePattern } = useQuery({
+    queryKey: ["admin-series-title-pattern", seriesId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("series")
+        .select("episode_title_pattern")
+        .eq("id", seriesId)
+        .maybeSingle();
+      if (error) throw error;
+      return data?.episode_title_pattern ?? null;
+    },
+    enabled: !!seriesId,
+  });
+
+  // Numbers edited in the preview win over the ones detected from the title
+  const numbering = (video: PlaylistVideo): NumberingDraft => {
+    if (overrides[video.id]) return overrides[video.id];
+    const detected = parseEpisodeNumbers(video.title, titlePattern);
+    return {
+      season: detected.season_number?.toString() ?? "",
+      episode: detected.episode_number?.toString() ?? "",
+    };
+  };
+
+  const handleNumberingChange = (videoId: string, next: NumberingDraft) =>
+    setOverrides((prev) => ({ ...prev, [videoId]: next }));
+
+  const handleFetch = async () => {
+    if (!url) {
+      toast({ title: "Playlist URL required", description: `Paste a public ${label} playlist link or ID` });
+      return;
+    }
+    setIsFetching(true);
+    try {
+      const { items, truncated } = await fetchPlaylistVideos(provider, url);
+      setVideos(items);
+      setSelected({});
+      setOverrides({});
+      setJob(null);
+      toast({
+        title: "Playlist fetched",
+        description: truncated ? `Showing the first ${items.length} videos of a larger playlist` : `Found ${items.length} videos`,
+      });
+    } catch (err) {
+      console.error(err);
+      toast({ title: "Failed to fetch playlist", description: err.message || String(err), variant: "destructive" });
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  const runJob = async (start: ImportJob) => {
+    const finished = await runImportJob(start, setJob);
+    toast({ title: "Import complete", description: `${finished.succeeded_count} added, ${finished.failed_count} failed` });
+    queryClient.invalidateQueries({ queryKey: ["admin-episode-options"] });
+    queryClient.invalidateQueries({ queryKey: ["admin-episodes"] });
+  };
+
+  const handleImportSelected = async () => {
+    if (!seriesId) {
+      toast({ title: "Series required", description: "Select the series to import into", variant: "destructive" });
+      return;
+    }
+    const selectedVideos = videos.filter((v) => selected[v.id]);
+    if (selectedVideos.length === 0) {
+      toast({ title: "No videos selected", description: "Select at least one video to import" });
+      return;
+    }
+    setIsImporting(true);
+    try {
+      const { data, error } = await supabase.rpc("admin_create_import_job", {
+        p_series_id: seriesId,
+        p_provider: provider,
+        p_items: selectedVideos.map((video) => {
+          const draft = numbering(video);
+          return {
+            video_id: video.id,
+            title: video.title,
+            season_number: draft.season === "" ? null : Number(draft.season),
+            episode_number: draft.episode === "" ? null : Number(draft.episode),
+            ...toEpisodeMetadata(video),
+          };
+        }),
+      });
+      if (error) throw error;
+      setJob(data);
+      await runJob(data);
+    } catch (err) {
+      toast({ title: "Import failed", description: err.message || String(err), variant: "destructive" });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleRetryFailed = async () => {
+    if (!job) return;
+    setIsImporting(true);
+    try {
+      const { data, error } = await supabase.rpc("admin_retry_import_job", { p_job_id: job.id });
+      if (error) throw error;
+      setJob(data);
+      await runJob(data);
+    } catch (err) {
+      toast({ title: "Retry failed", description: err.message || String(err), variant: "destructive" });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import Episodes from {label} Playlist</CardTitle>
+        <CardDescription>
+          Paste a public playlist link or ID and fetch its videos. Import adds the selected videos; Sync compares the playlist with the series and only applies what changed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor={`${idPrefix}-series`}>Series</Label>
+            <SeriesPicker id={`${idPrefix}-series`} value={seriesId} onChange={onSeriesChange} />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor={`${idPrefix}-url`}>Playlist URL or ID</Label>
+            <Input id={`${idPrefix}-url`} placeholder={PLACEHOLDERS[provider]} value={url} onChange={(e) => setUrl(e.target.value)} />
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleFetch} disabled={isFetching}>{isFetching ? "Fetching..." : "Fetch Videos"}</Button>
+            {videos.length > 0 && mode === "import" && (
+              <Button variant="secondary" onClick={handleImportSelected} disabled={isImporting}>
+                {isImporting ? "Importing..." : `Import Selected (${Object.values(selected).filter(Boolean).length})`}
+              </Button>
+            )}
+          </div>
+          {videos.length > 0 && (
+            <Tabs value={mode} onValueChange={(v) => setMode(v as "import" | "sync")}>
+              <TabsList>
+                <TabsTrigger value="import">Import</TabsTrigger>
+                <TabsTrigger value="sync">Sync playlist</TabsTrigger>
+              </TabsList>
+              <TabsContent value="import" className="grid gap-4">
+                {job && <ImportJobPanel job={job} isRunning={isImporting} onRetry={handleRetryFailed} />}
+                <PlaylistPreviewList
+                  idPrefix={idPrefix}
+                  videos={videos}
+                  selected={selected}
+                  onSelectedChange={setSelected}
+                  numbering={numbering}
+                  onNumberingChange={handleNumberingChange}
+                />
+              </TabsContent>
+              <TabsContent value="sync">
+                <PlaylistSyncPanel
+                  provider={provider}
+                  seriesId={seriesId}
+                  videos={videos}
+                  numbering={numbering}
+                  onNumberingChange={handleNumberingChange}
+                />
+              </TabsContent>
+            </Tabs>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PlaylistImportCard;
@@ -0,0 +1,79 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { PlaylistVideo } from "@/lib/playlists";
+
+// Season/episode values as typed in the preview; empty string means "no number"
+export interface NumberingDraft {
+  season: string;
+  episode: string;
+}
+
+interface PlaylistPreviewListProps {
+  idPrefix: string;
+  videos: PlaylistVideo[];
+  selected: Record<string, boolean>;
+  onSelectedChange: (next: Record<string, boolean>) => void;
+  numbering: (video: PlaylistVideo) => NumberingDraft;
+  onNumberingChange: (videoId: string, next: NumberingDraft) => void;
+}
+
+const PlaylistPreviewList = ({ idPrefix, videos, selected, onSelectedChange, numbering, onNumberingChange }: PlaylistPreviewListProps) => {
+  const allSelected = videos.length > 0 && videos.every((v) => selected[v.id]);
+
+  return (
+    <div className="rounded-md border">
+      <div className="flex items-center gap-2 border-b p-3">
+        <Checkbox
+          id={`${idPrefix}-select-all`}
+          checked={allSelected}
+          onCheckedChange={(c) => {
+            const checked = Boolean(c);
+            const next: Record<string, boolean> = {};
+            videos.forEach((v) => (next[v.id] = checked));
+            onSelectedChange(next);
+          }}
+        />
+        <Label htmlFor={`${idPrefix}-select-all`} className="flex-1">Select all ({videos.length})</Label>
+        <span className="w-16 text-center text-xs text-muted-foreground">Season</span>
+        <span className="w-16 text-center text-xs text-muted-foreground">Episode</span>
+      </div>
+      <div className="max-h-80 divide-y overflow-auto">
+        {videos.map((v) => {
+          const current = numbering(v);
+          return (
+            <div key={v.id} className="flex items-center gap-3 p-3">
+              <Checkbox
+                id={`${idPrefix}-${v.id}`}
+                checked={!!selected[v.id]}
+                onCheckedChange={(c) => onSelectedChange({ ...selected, [v.id]: Boolean(c) })}
+              />
+              <Label htmlFor={`${idPrefix}-${v.id}`} className="flex-1">
+                <span className="font-medium">{v.title}</span>
+                <span className="ml-2 text-xs text-muted-foreground">({v.id})</span>
+              </Label>
+              <Input
+                type="number"
+                min={0}
+                aria-label={`Season number for ${v.title}`}
+                className="h-8 w-16"
+                value={current.season}
+                onChange={(e) => onNumberingChange(v.id, { ...current, season: e.target.value })}
+              />
+              <Input
+                type="number"
+                min={0}
+                aria-label={`Episode number for ${v.title}`}
+                className="h-8 w-16"
+                value={current.episode}
+                onChange={(e) => onNumberingChange(v.id, { ...current, episode: e.target.value })}
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PlaylistPreviewList;
@@ -0,0 +1,192 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { diffPlaylist } from "@/lib/playlist-sync";
+import { toEpisodeMetadata, type PlaylistVideo, type VideoProvider } from "@/lib/playlists";
+import PlaylistPreviewList, { type NumberingDraft } from "./PlaylistPreviewList";
+
+interface PlaylistSyncPanelProps {
+  provider: VideoProvider;
+  seriesId: string;
+  videos: PlaylistVideo[];
+  numbering: (video: PlaylistVideo) => NumberingDraft;
+  onNumberingChange: (videoId: string, next: NumberingDraft) => void;
+}
+
+const toNumber = (value: string) => (value === "" ? null : Number(value));
+
+const PlaylistSyncPanel = ({ provider, seriesId, videos, numbering, onNumberingChange }: PlaylistSyncPanelProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [addSelected, setAddSelected] = useState<Record<string, boolean>>({});
+  const [renameSelected, setRenameSelected] = useState<Record<string, boolean>>({});
+  const [removeSelected, setRemoveSelected] = useState<Record<string, boolean>>({});
+  const [isApplying, setIsApplying] = useState(false);
+
+  const { data: episodes, isLoading } = useQuery({
+    queryKey: ["admin-episodes", seriesId, "sync"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("episodes")
+        .select("id,title,dailymotion_video_id,youtube_video_id")
+        .eq("series_id", seriesId);
+      if (error) throw error;
+      return data ?? [];
+    },
+    enabled: !!seriesId,
+  });
+
+  const diff = useMemo(() => (episodes ? diffPlaylist(videos, episodes, provider) : null), [videos, episodes, provider]);
+
+  // New videos and renames are opt-out; removals are opt-in because they delete comments too
+  useEffect(() => {
+    if (!diff) return;
+    const adds: Record<string, boolean> = {};
+    diff.added.forEach((v) => (adds[v.id] = true));
+    const renames: Record<string, boolean> = {};
+    diff.renamed.forEach(({ episode }) => (renames[episode.id] = true));
+    setAddSelected(adds);
+    setRenameSelected(renames);
+    setRemoveSelected({});
+  }, [diff]);
+
+  if (!seriesId) {
+    return <p className="text-sm text-muted-foreground">Select a series to compare the playlist against.</p>;
+  }
+  if (isLoading || !diff) {
+    return <p className="text-sm text-muted-foreground">Loading episodes...</p>;
+  }
+
+  const adds = diff.added.filter((v) => addSelected[v.id]);
+  const renames = diff.renamed.filter(({ episode }) => renameSelected[episode.id]);
+  const dropped = [...diff.removed, ...diff.unlinked];
+  const removals = dropped.filter((ep) => removeSelected[ep.id]);
+  const changeCount = adds.length + renames.length + removals.length;
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      const { data, error } = await supabase.rpc("admin_sync_playlist", {
+        p_series_id: seriesId,
+        p_provider: provider,
+        p_add: adds.map((video) => {
+          const draft = numbering(video);
+          return {
+            video_id: video.id,
+            title: video.title,
+            description: video.description || null,
+            season_number: toNumber(draft.season),
+            episode_number: toNumber(draft.episode),
+            ...toEpisodeMetadata(video),
+          };
+        }),
+        p_rename: renames.map(({ episode, video }) => ({ id: episode.id, title: video.title })),
+        p_remove: removals.map((ep) => ep.id),
+      });
+      if (error) throw error;
+      const result = data as { added: number; renamed: number; unlinked: number; removed: number };
+      toast({
+        title: "Sync applied",
+        description: `${result.added} added, ${result.renamed} renamed, ${result.unlinked} unlinked, ${result.removed} removed`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["admin-episodes"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-episode-options"] });
+    } catch (err) {
+      toast({ title: "Sync failed", description: err.message || String(err), variant: "destructive" });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  if (diff.added.length === 0 && diff.renamed.length === 0 && dropped.length === 0) {
+    return <p className="text-sm text-muted-foreground">Up to date: all {diff.unchanged} videos are already imported.</p>;
+  }
+
+  return (
+    <div className="grid gap-4">
+      <p className="text-sm text-muted-foreground">
+        {diff.added.length} new, {diff.renamed.length} renamed, {dropped.length} no longer in the playlist, {diff.unchanged} unchanged
+      </p>
+
+      {diff.added.length > 0 && (
+        <div className="grid gap-2">
+          <h3 className="text-sm font-semibold">New videos</h3>
+          <PlaylistPreviewList
+            idPrefix={`${provider}-sync-add`}
+            videos={diff.added}
+            selected={addSelected}
+            onSelectedChange={setAddSelected}
+            numbering={numbering}
+            onNumberingChange={onNumberingChange}
+          />
+        </div>
+      )}
+
+      {diff.renamed.length > 0 && (
+        <div className="grid gap-2">
+          <h3 className="text-sm font-semibold">Renamed videos</h3>
+          <div className="max-h-60 divide-y overflow-auto rounded-md border">
+            {diff.renamed.map(({ episode, video }) => (
+              <div key={episode.id} className="flex items-center gap-3 p-3">
+                <Checkbox
+                  id={`${provider}-sync-rename-${episode.id}`}
+                  checked={!!renameSelected[episode.id]}
+                  onCheckedChange={(c) => setRenameSelected({ ...renameSelected, [episode.id]: Boolean(c) })}
+                />
+                <Label htmlFor={`${provider}-sync-rename-${episode.id}`} className="flex-1">
+                  <span className="text-muted-foreground line-through">{episode.title}</span>
+                  <span className="mx-2">→</span>
+                  <span className="font-medium">{video.title}</span>
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {dropped.length > 0 && (
+        <div className="grid gap-2">
+          <h3 className="text-sm font-semibold">No longer in the playlist</h3>
+          <p className="text-xs text-muted-foreground">
+            Selected episodes are deleted together with their comments, unless they still have a video from the other
+            provider; those keep it and only lose this one.
+          </p>
+          <div className="max-h-60 divide-y overflow-auto rounded-md border">
+            {dropped.map((ep) => (
+              <div key={ep.id} className="flex items-center gap-3 p-3">
+                <Checkbox
+                  id={`${provider}-sync-remove-${ep.id}`}
+                  checked={!!removeSelected[ep.id]}
+                  onCheckedChange={(c) => setRemoveSelected({ ...removeSelected, [ep.id]: Boolean(c) })}
+                />
+                <Label htmlFor={`${provider}-sync-remove-${ep.id}`} className="flex-1">
+                  <span className="font-medium">{ep.title}</span>
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    ({provider === "dailymotion" ? ep.dailymotion_video_id : ep.youtube_video_id})
+                  </span>
+                  {diff.unlinked.includes(ep) && (
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      keeps its {provider === "dailymotion" ? "YouTube" : "Dailymotion"} video
+                    </span>
+                  )}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <Button onClick={handleApply} disabled={changeCount === 0 || isApplying}>
+          {isApplying ? "Applying..." : `Apply ${changeCount} Change${changeCount === 1 ? "" : "s"}`}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PlaylistSyncPanel;
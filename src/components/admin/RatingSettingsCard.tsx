@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+
+const RatingSettingsCard = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [priorMean, setPriorMean] = useState("");
+  const [minVotes, setMinVotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: settings } = useQuery({
+    queryKey: ["admin-rating-settings"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("rating_settings").select("prior_mean,min_votes").maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  useEffect(() => {
+    if (!settings) return;
+    setPriorMean(String(settings.prior_mean));
+    setMinVotes(String(settings.min_votes));
+  }, [settings]);
+
+  const handleSave = async () => {
+    const mean = Number(priorMean);
+    const votes = Number(minVotes);
+    if (!priorMean || Number.isNaN(mean) || mean < 1 || mean > 5) {
+      toast({ title: "Invalid prior mean", description: "Use a rating between 1 and 5" });
+      return;
+    }
+    if (!minVotes || !Number.isInteger(votes) || votes < 0) {
+      toast({ title: "Invalid minimum votes", description: "Use a whole number of 0 or more" });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.rpc("admin_update_rating_settings", { p_prior_mean: mean, p_min_votes: votes });
+      if (error) throw error;
+      queryClient.invalidateQueries({ queryKey: ["admin-rating-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["series"] });
+      toast({ title: "Rating settings saved", description: "Weighted ratings were recomputed for every series" });
+    } catch (err) {
+      toast({ title: "Failed to save rating settings", description: err.message || String(err), variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Rating Weighting</CardTitle>
+        <CardDescription>
+          "Top rated" blends each series' average with a prior, so a few votes cannot outrank hundreds
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="rating-prior-mean">Prior mean</Label>
+              <Input
+                id="rating-prior-mean"
+                type="number"
+                min={1}
+                max={5}
+                step={0.1}
+                value={priorMean}
+                onChange={(e) => setPriorMean(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="rating-min-votes">Minimum votes</Label>
+              <Input
+                id="rating-min-votes"
+                type="number"
+                min={0}
+                step={1}
+                value={minVotes}
+                onChange={(e) => setMinVotes(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            A series needs about "minimum votes" ratings before its own average weighs as much as the prior mean.
+          </p>
+          <div>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save and Recompute"}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RatingSettingsCard;
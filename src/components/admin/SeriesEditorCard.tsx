@@ -0,0 +1,269 @@
+import { useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { isValidTitlePattern } from "@/lib/episode-numbering";
+import { isValidSlug, slugify } from "@/lib/slug";
+import SeriesPicker from "./SeriesPicker";
+
+type SeriesCategory = Database["public"]["Enums"]["series_category"];
+
+interface SeriesFields {
+  title: string;
+  description: string | null;
+  cover_image_url: string | null;
+  category: SeriesCategory | null;
+  slug: string | null;
+  dailymotion_playlist_id: string | null;
+  youtube_playlist_id: string | null;
+  is_published: boolean;
+  episode_title_pattern: string | null;
+  auto_sync: boolean;
+}
+
+const FIELD_LABELS: Record<keyof SeriesFields, string> = {
+  title: "Title",
+  description: "Description",
+  cover_image_url: "Cover image",
+  category: "Category",
+  slug: "Slug",
+  dailymotion_playlist_id: "Dailymotion playlist",
+  youtube_playlist_id: "YouTube playlist",
+  is_published: "Published",
+  episode_title_pattern: "Episode title pattern",
+  auto_sync: "Auto-sync playlists",
+};
+
+const FIELDS = Object.keys(FIELD_LABELS) as Array<keyof SeriesFields>;
+
+// Empty inputs are stored as NULL so clearing a field actually clears the column
+const normalize = (value: SeriesFields[keyof SeriesFields]) =>
+  typeof value === "string" ? (value.trim() === "" ? null : value.trim()) : value;
+
+const diffSeries = (original: SeriesFields, draft: SeriesFields) => {
+  const changes: Partial<SeriesFields> = {};
+  for (const field of FIELDS) {
+    const next = normalize(draft[field]);
+    if (next !== normalize(original[field])) {
+      (changes as Record<string, unknown>)[field] = next;
+    }
+  }
+  return changes;
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
+const SeriesEditorCard = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [seriesId, setSeriesId] = useState("");
+  const [original, setOriginal] = useState<SeriesFields | null>(null);
+  const [draft, setDraft] = useState<SeriesFields | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  // Bumped on every load so a slower response for a previously picked series is ignored
+  const loadRequest = useRef(0);
+
+  const handleLoad = async (id: string) => {
+    const request = ++loadRequest.current;
+    setSeriesId(id);
+    setOriginal(null);
+    setDraft(null);
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("series")
+        .select("title,description,cover_image_url,category,slug,dailymotion_playlist_id,youtube_playlist_id,is_published,episode_title_pattern,auto_sync")
+        .eq("id", id)
+        .maybeSingle();
+      if (request !== loadRequest.current) return;
+      if (error) throw error;
+      if (!data) throw new Error("Series not found");
+      setOriginal(data);
+      setDraft(data);
+    } catch (err) {
+      if (request !== loadRequest.current) return;
+      toast({ title: "Failed to load series", description: err.message || String(err), variant: "destructive" });
+    } finally {
+      if (request === loadRequest.current) setIsLoading(false);
+    }
+  };
+
+  const changes = original && draft ? diffSeries(original, draft) : {};
+  const changedFields = Object.keys(changes) as Array<keyof SeriesFields>;
+
+  const handleSave = async () => {
+    if (!original || changedFields.length === 0) return;
+    if ("title" in changes && !changes.title) {
+      toast({ title: "Title required", description: "A series cannot have an empty title" });
+      return;
+    }
+    if (changes.slug && !isValidSlug(changes.slug)) {
+      toast({ title: "Invalid slug", description: "Use lowercase letters, numbers and single hyphens", variant: "destructive" });
+      return;
+    }
+    if (changes.episode_title_pattern && !isValidTitlePattern(changes.episode_title_pattern)) {
+      toast({ title: "Invalid pattern", description: "The episode title pattern is not a valid regular expression", variant: "destructive" });
+      return;
+    }
+    const request = loadRequest.current;
+    setIsSaving(true);
+    try {
+      const { data, error } = await supabase.rpc("admin_update_series", {
+        p_series_id: seriesId,
+        p_changes: changes,
+      });
+      if (error) throw error;
+      const saved: SeriesFields = {
+        title: data.title,
+        description: data.description,
+        cover_image_url: data.cover_image_url,
+        category: data.category,
+        slug: data.slug,
+        dailymotion_playlist_id: data.dailymotion_playlist_id,
+        youtube_playlist_id: data.youtube_playlist_id,
+        is_published: data.is_published,
+        episode_title_pattern: data.episode_title_pattern,
+        auto_sync: data.auto_sync,
+      };
+      // Another series may have been picked while saving
+      if (request === loadRequest.current) {
+        setOriginal(saved);
+        setDraft(saved);
+      }
+      queryClient.invalidateQueries({ queryKey: ["admin-series-options"] });
+      toast({ title: "Series updated", description: `Saved ${changedFields.length} change(s) to ${data.title}` });
+    } catch (err) {
+      toast({ title: "Failed to update series", description: err.message || String(err), variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const update = <K extends keyof SeriesFields>(field: K, value: SeriesFields[K]) => {
+    setDraft((prev) => (prev ? { ...prev, [field]: value } : prev));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Edit Series</CardTitle>
+        <CardDescription>Pick an existing series, review the changes and save them without losing views, ratings or comments</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor="edit-series-id">Series</Label>
+            <SeriesPicker id="edit-series-id" value={seriesId} onChange={handleLoad} />
+          </div>
+
+          {isLoading && <p className="text-sm text-muted-foreground">Loading series...</p>}
+
+          {draft && (
+            <>
+              <div className="grid gap-2">
+                <Label htmlFor="edit-title">Title</Label>
+                <Input id="edit-title" value={draft.title} onChange={(e) => update("title", e.target.value)} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="edit-desc">Description</Label>
+                <Textarea id="edit-desc" value={draft.description ?? ""} onChange={(e) => update("description", e.target.value)} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="edit-cover">Cover Image URL</Label>
+                <Input id="edit-cover" value={draft.cover_image_url ?? ""} onChange={(e) => update("cover_image_url", e.target.value)} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="edit-category">Category</Label>
+                <Select value={draft.category ?? ""} onValueChange={(v) => update("category", v as SeriesCategory)}>
+                  <SelectTrigger id="edit-category">
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="donghua">Donghua</SelectItem>
+                    <SelectItem value="anime">Anime</SelectItem>
+                    <SelectItem value="movie">Movie</SelectItem>
+                    <SelectItem value="cartoon">Cartoon</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="edit-slug">Slug</Label>
+                <Input id="edit-slug" placeholder={slugify(draft.title) || "demon-slayer"} value={draft.slug ?? ""} onChange={(e) => update("slug", e.target.value)} />
+                <p className="text-xs text-muted-foreground">Clear to regenerate from the title. Links with the old slug keep working.</p>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="edit-dm-playlist">Dailymotion Playlist ID</Label>
+                <Input id="edit-dm-playlist" value={draft.dailymotion_playlist_id ?? ""} onChange={(e) => update("dailymotion_playlist_id", e.target.value)} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="edit-yt-playlist">YouTube Playlist ID</Label>
+                <Input id="edit-yt-playlist" value={draft.youtube_playlist_id ?? ""} onChange={(e) => update("youtube_playlist_id", e.target.value)} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="edit-title-pattern">Episode Title Pattern (optional)</Label>
+                <Input
+                  id="edit-title-pattern"
+                  placeholder="e.g. \[EP (?<episode>\d+)\]"
+                  value={draft.episode_title_pattern ?? ""}
+                  onChange={(e) => update("episode_title_pattern", e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Regular expression used during playlist import to detect numbering. Use named groups <code>season</code> and <code>episode</code>.
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="edit-published" checked={draft.is_published} onCheckedChange={(c) => update("is_published", c)} />
+                <Label htmlFor="edit-published">Published</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="edit-auto-sync" checked={draft.auto_sync} onCheckedChange={(c) => update("auto_sync", c)} />
+                <Label htmlFor="edit-auto-sync">Auto-sync playlists (import new videos on a schedule)</Label>
+              </div>
+
+              <div className="rounded-md border">
+                <div className="border-b p-3 text-sm font-medium">
+                  {changedFields.length === 0 ? "No changes" : `${changedFields.length} field(s) will change`}
+                </div>
+                {changedFields.length > 0 && (
+                  <div className="divide-y text-sm">
+                    {changedFields.map((field) => (
+                      <div key={field} className="grid gap-1 p-3">
+                        <span className="font-medium">{FIELD_LABELS[field]}</span>
+                        <span className="break-all text-muted-foreground line-through">{formatValue(original?.[field])}</span>
+                        <span className="break-all">{formatValue(changes[field])}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex gap-2">
+                <Button onClick={handleSave} disabled={isSaving || changedFields.length === 0}>
+                  {isSaving ? "Saving..." : "Save Changes"}
+                </Button>
+                <Button variant="ghost" onClick={() => setDraft(original)} disabled={changedFields.length === 0}>
+                  Reset
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SeriesEditorCard;
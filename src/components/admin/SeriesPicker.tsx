@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { supabase } from "@/integrations/supabase/client";
+import { cn } from "@/lib/utils";
+
+interface SeriesPickerProps {
+  id?: string;
+  value: string;
+  onChange: (seriesId: string) => void;
+  placeholder?: string;
+}
+
+const SeriesPicker = ({ id, value, onChange, placeholder = "Select series..." }: SeriesPickerProps) => {
+  const [open, setOpen] = useState(false);
+
+  const { data: series, isLoading } = useQuery({
+    queryKey: ["admin-series-options"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("series")
+        .select("id,title,category,is_published")
+        .order("title", { ascending: true });
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const selected = series?.find((s) => s.id === value);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+        >
+          <span className={cn("truncate", !selected && "text-muted-foreground")}>
+            {selected ? selected.title : isLoading ? "Loading series..." : placeholder}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search series..." />
+          <CommandList>
+            <CommandEmpty>No series found.</CommandEmpty>
+            <CommandGroup>
+              {series?.map((s) => (
+                <CommandItem
+                  key={s.id}
+                  value={`${s.title} ${s.id}`}
+                  onSelect={() => {
+                    onChange(s.id);
+                    setOpen(false);
+                  }}
+                >
+                  <Check className={cn("mr-2 h-4 w-4", value === s.id ? "opacity-100" : "opacity-0")} />
+                  <span className="flex-1 truncate">{s.title}</span>
+                  <span className="ml-2 text-xs capitalize text-muted-foreground">
+                    {s.category ?? "uncategorized"}{s.is_published ? "" : " · draft"}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SeriesPicker;
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { AdminRole } from "@/hooks/use-admin-auth";
+
+interface StaffRolesCardProps {
+  currentUserId: string;
+}
+
+const StaffRolesCard = ({ currentUserId }: StaffRolesCardProps) => {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<AdminRole>("editor");
+
+  const { data: staff, refetch } = useQuery({
+    queryKey: ["admin-staff"],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("admin_list_roles");
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const handleGrant = async () => {
+    if (!email.trim()) {
+      toast({ title: "Email required", description: "Enter the email the staff member signed up with" });
+      return;
+    }
+    try {
+      const { error } = await supabase.rpc("admin_grant_role", { p_email: email.trim(), p_role: role });
+      if (error) throw error;
+      toast({ title: "Role granted", description: `${email.trim()} is now ${role}` });
+      setEmail("");
+      setRole("editor");
+      refetch();
+    } catch (err) {
+      toast({ title: "Failed to grant role", description: err.message || String(err), variant: "destructive" });
+    }
+  };
+
+  const handleRevoke = async (userId: string, userEmail: string) => {
+    try {
+      const { error } = await supabase.rpc("admin_revoke_role", { p_user_id: userId });
+      if (error) throw error;
+      toast({ title: "Role revoked", description: userEmail });
+      refetch();
+    } catch (err) {
+      toast({ title: "Failed to revoke role", description: err.message || String(err), variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Staff Access</CardTitle>
+        <CardDescription>Owners manage everything, editors manage content, moderators moderate comments</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor="staff-email">Email</Label>
+            <Input id="staff-email" type="email" placeholder="editor@example.com" value={email} onChange={(e) => setEmail(e.target.value)} />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="staff-role">Role</Label>
+            <Select value={role} onValueChange={(v) => setRole(v as AdminRole)}>
+              <SelectTrigger id="staff-role">
+                <SelectValue placeholder="Select role" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="owner">Owner</SelectItem>
+                <SelectItem value="editor">Editor</SelectItem>
+                <SelectItem value="moderator">Moderator</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Button onClick={handleGrant}>Grant Role</Button>
+          </div>
+          {staff && staff.length > 0 && (
+            <div className="divide-y rounded-md border">
+              {staff.map((member) => (
+                <div key={member.user_id} className="flex items-center justify-between gap-3 p-3">
+                  <div>
+                    <span className="font-medium">{member.email}</span>
+                    <span className="ml-2 text-xs capitalize text-muted-foreground">{member.role}</span>
+                  </div>
+                  {member.user_id !== currentUserId && (
+                    <Button variant="ghost" size="sm" onClick={() => handleRevoke(member.user_id, member.email)}>
+                      Revoke
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StaffRolesCard;
@@ -0,0 +1,148 @@
+import { Fragment, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { PROVIDER_LABELS, type VideoProvider } from "@/lib/playlists";
+
+// Shape written by the playlist-sync edge function
+interface SyncResult {
+  series_id: string;
+  series_title: string;
+  provider: VideoProvider;
+  fetched: number;
+  added: number;
+  error?: string;
+}
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  running: "outline",
+  succeeded: "default",
+  partial: "secondary",
+  failed: "destructive",
+};
+
+const SyncRunsCard = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const { data: runs, isLoading } = useQuery({
+    queryKey: ["admin-sync-runs"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("playlist_sync_runs")
+        .select("*")
+        .order("started_at", { ascending: false })
+        .limit(20);
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const handleRunNow = async () => {
+    setIsRunning(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("playlist-sync", { body: {} });
+      if (error) throw error;
+      toast({ title: "Sync finished", description: `${data.episodes_added} episodes added across ${data.series_checked} series` });
+      queryClient.invalidateQueries({ queryKey: ["admin-episodes"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-episode-options"] });
+    } catch (err) {
+      toast({ title: "Sync failed", description: err.message || String(err), variant: "destructive" });
+    } finally {
+      queryClient.invalidateQueries({ queryKey: ["admin-sync-runs"] });
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <CardTitle>Playlist Auto-Sync</CardTitle>
+        <CardDescription>New videos from the playlists of series with auto-sync enabled are imported on a schedule. Recent runs are listed below.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-4">
+          <div>
+            <Button onClick={handleRunNow} disabled={isRunning}>{isRunning ? "Syncing..." : "Run Sync Now"}</Button>
+          </div>
+
+          {isLoading && <p className="text-sm text-muted-foreground">Loading sync runs...</p>}
+          {runs && runs.length === 0 && <p className="text-sm text-muted-foreground">No sync runs yet.</p>}
+
+          {runs && runs.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Trigger</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Series</TableHead>
+                  <TableHead className="text-right">Added</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => {
+                  const results = (run.results ?? []) as unknown as SyncResult[];
+                  const failures = results.filter((r) => r.error);
+                  const expanded = expandedId === run.id;
+                  return (
+                    <Fragment key={run.id}>
+                      <TableRow>
+                        <TableCell title={new Date(run.started_at).toLocaleString()}>
+                          {formatDistanceToNow(new Date(run.started_at), { addSuffix: true })}
+                        </TableCell>
+                        <TableCell className="capitalize">{run.trigger}</TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_VARIANTS[run.status] ?? "outline"} className="capitalize">{run.status}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{run.series_checked}</TableCell>
+                        <TableCell className="text-right">{run.episodes_added}</TableCell>
+                        <TableCell>
+                          {(results.length > 0 || run.error) && (
+                            <Button variant="ghost" size="sm" onClick={() => setExpandedId(expanded ? null : run.id)}>
+                              {expanded ? "Hide" : failures.length > 0 ? `${failures.length} error(s)` : "Details"}
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {expanded && (
+                        <TableRow>
+                          <TableCell colSpan={6} className="bg-muted/50">
+                            {run.error && <p className="mb-2 text-sm text-destructive">{run.error}</p>}
+                            <ul className="grid gap-1 text-sm">
+                              {results.map((r) => (
+                                <li key={`${r.series_id}-${r.provider}`}>
+                                  <span className="font-medium">{r.series_title}</span>
+                                  <span className="text-muted-foreground"> · {PROVIDER_LABELS[r.provider]} · </span>
+                                  {r.error ? (
+                                    <span className="text-destructive">{r.error}</span>
+                                  ) : (
+                                    <span>{r.added} added of {r.fetched} fetched</span>
+                                  )}
+                                </li>
+                              ))}
+                            </ul>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SyncRunsCard;
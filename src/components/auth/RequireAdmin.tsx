@@ -0,0 +1,47 @@
+import { Navigate, useLocation } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAdminAuth } from "@/hooks/use-admin-auth";
+
+interface RequireAdminProps {
+  children: React.ReactNode;
+}
+
+const RequireAdmin = ({ children }: RequireAdminProps) => {
+  const { user, role, isLoading, signOut } = useAdminAuth();
+  const location = useLocation();
+
+  if (isLoading) {
+    return (
+      <main className="container mx-auto max-w-xl px-4 py-10 text-center text-muted-foreground">
+        Checking access...
+      </main>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/admin/login" replace state={{ from: location }} />;
+  }
+
+  if (!role) {
+    return (
+      <main className="container mx-auto max-w-xl px-4 py-10">
+        <Card>
+          <CardHeader>
+            <CardTitle>No admin access</CardTitle>
+            <CardDescription>
+              You are signed in as {user.email}, but this account has no staff role. Ask an owner to grant you access.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="secondary" onClick={signOut}>Sign out</Button>
+          </CardContent>
+        </Card>
+      </main>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireAdmin;
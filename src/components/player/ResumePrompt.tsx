@@ -0,0 +1,28 @@
+import { Play, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatDuration } from "@/lib/duration";
+
+interface ResumePromptProps {
+  position: number;
+  onResume: () => void;
+  onDismiss: () => void;
+}
+
+const ResumePrompt = ({ position, onResume, onDismiss }: ResumePromptProps) => (
+  <div
+    role="status"
+    className="mx-auto mt-3 flex w-full max-w-[420px] flex-wrap items-center justify-between gap-2 rounded-md border bg-muted/50 px-3 py-2 text-sm sm:max-w-[520px] md:max-w-[720px] lg:max-w-[960px]"
+  >
+    <span className="text-muted-foreground">You stopped at {formatDuration(position)}</span>
+    <div className="flex gap-2">
+      <Button size="sm" onClick={onResume}>
+        <Play className="mr-1 h-4 w-4" /> Resume from {formatDuration(position)}
+      </Button>
+      <Button size="sm" variant="ghost" onClick={onDismiss}>
+        <RotateCcw className="mr-1 h-4 w-4" /> Start over
+      </Button>
+    </div>
+  </div>
+);
+
+export default ResumePrompt;
@@ -0,0 +1,43 @@
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { mirrorLabel, type EpisodeMirror } from "./providers";
+
+interface SourceSwitcherProps {
+  mirrors: EpisodeMirror[];
+  activeId?: string;
+  // Mirrors that reported an error; still selectable to retry
+  failedIds: string[];
+  onSelect: (mirror: EpisodeMirror) => void;
+}
+
+const SourceSwitcher = ({ mirrors, activeId, failedIds, onSelect }: SourceSwitcherProps) => {
+  if (mirrors.length < 2) return null;
+  return (
+    <div
+      role="radiogroup"
+      aria-label="Video source"
+      className="mx-auto mt-3 flex w-full max-w-[420px] flex-wrap items-center gap-2 sm:max-w-[520px] md:max-w-[720px] lg:max-w-[960px]"
+    >
+      <span className="text-sm text-muted-foreground">Source:</span>
+      {mirrors.map((mirror) => {
+        const failed = failedIds.includes(mirror.id);
+        return (
+          <Button
+            key={mirror.id}
+            size="sm"
+            role="radio"
+            aria-checked={mirror.id === activeId}
+            variant={mirror.id === activeId ? "secondary" : "outline"}
+            title={failed ? "This source failed to play" : undefined}
+            onClick={() => onSelect(mirror)}
+          >
+            {failed && <AlertTriangle className="mr-1 h-3 w-3 text-destructive" />}
+            {mirrorLabel(mirror)}
+          </Button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SourceSwitcher;
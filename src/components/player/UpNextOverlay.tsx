@@ -0,0 +1,57 @@
+import { useEffect, useRef, useState } from "react";
+import { Play, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface UpNextOverlayProps {
+  title: string;
+  label?: string | null;
+  // Seconds before onPlayNow is called; without it the overlay just waits
+  countdown?: number;
+  onPlayNow: () => void;
+  onCancel: () => void;
+}
+
+const UpNextOverlay = ({ title, label, countdown, onPlayNow, onCancel }: UpNextOverlayProps) => {
+  const [remaining, setRemaining] = useState(countdown);
+  const onPlayNowRef = useRef(onPlayNow);
+  onPlayNowRef.current = onPlayNow;
+
+  useEffect(() => {
+    setRemaining(countdown);
+    if (countdown == null) return;
+    const startedAt = Date.now();
+    const timer = setInterval(() => {
+      const left = Math.max(countdown - Math.floor((Date.now() - startedAt) / 1000), 0);
+      setRemaining(left);
+      if (left === 0) {
+        clearInterval(timer);
+        onPlayNowRef.current();
+      }
+    }, 250);
+    return () => clearInterval(timer);
+  }, [countdown]);
+
+  return (
+    <div
+      role="dialog"
+      aria-label="Up next"
+      className="absolute inset-0 flex flex-col items-center justify-center gap-3 rounded-lg bg-black/80 p-4 text-center text-white"
+    >
+      <p className="text-sm text-white/70">
+        {remaining != null ? `Up next in ${remaining}s` : "Up next"}
+      </p>
+      {label && <p className="text-xs font-medium text-white/70">{label}</p>}
+      <h3 className="line-clamp-2 max-w-md text-lg font-semibold">{title}</h3>
+      <div className="flex gap-2">
+        <Button size="sm" onClick={onPlayNow}>
+          <Play className="mr-1 h-4 w-4" /> Play now
+        </Button>
+        <Button size="sm" variant="secondary" onClick={onCancel}>
+          <X className="mr-1 h-4 w-4" /> Cancel
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default UpNextOverlay;
@@ -0,0 +1,140 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState, type ReactNode } from "react";
+import { AspectRatio } from "@/components/ui/aspect-ratio";
+import { cn } from "@/lib/utils";
+import { getProvider, type PlayerController, type PlayerError, type PlayerState, type VideoSource } from "./providers";
+
+export type VideoPlayerHandle = Omit<PlayerController, "destroy">;
+
+interface VideoPlayerProps {
+  // Without a source the player frame shows that nothing can be played
+  source?: VideoSource;
+  title?: string;
+  className?: string;
+  // Applies when a source is loaded; changing it alone does not reload the player
+  autoplay?: boolean;
+  // Rendered over the video, e.g. an end-of-episode overlay
+  children?: ReactNode;
+  onReady?: () => void;
+  onPlay?: () => void;
+  onPause?: () => void;
+  onEnded?: () => void;
+  onStateChange?: (state: PlayerState) => void;
+  onTimeUpdate?: (currentTime: number, duration: number) => void;
+  onError?: (error: PlayerError) => void;
+}
+
+type PlayerListeners = Omit<VideoPlayerProps, "source" | "title" | "className" | "autoplay" | "children">;
+
+const VideoPlayer = forwardRef<VideoPlayerHandle, VideoPlayerProps>(
+  ({ source, title = "Player", className, autoplay = false, children, ...listeners }, ref) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const controllerRef = useRef<PlayerController | null>(null);
+    // Read through a ref so new handler identities don't recreate the player
+    const listenersRef = useRef<PlayerListeners>(listeners);
+    listenersRef.current = listeners;
+    const autoplayRef = useRef(autoplay);
+    autoplayRef.current = autoplay;
+    const [loadError, setLoadError] = useState<string | null>(null);
+
+    const provider = source ? getProvider(source.provider) : undefined;
+    const { videoId, playlistId } = source ?? {};
+
+    useEffect(() => {
+      const container = containerRef.current;
+      if (!provider || !container) return;
+      let cancelled = false;
+      setLoadError(null);
+
+      // The SDKs replace the element they are given, so keep it out of React's tree
+      const element = document.createElement("div");
+      container.appendChild(element);
+
+      provider
+        .mount(
+          element,
+          { provider: provider.id, videoId, playlistId },
+          {
+            onReady: () => {
+              if (!cancelled) listenersRef.current.onReady?.();
+            },
+            onStateChange: (state) => {
+              if (cancelled) return;
+              const current = listenersRef.current;
+              current.onStateChange?.(state);
+              if (state === "playing") current.onPlay?.();
+              else if (state === "paused") current.onPause?.();
+              else if (state === "ended") current.onEnded?.();
+            },
+            onTimeUpdate: (currentTime, duration) => {
+              if (!cancelled) listenersRef.current.onTimeUpdate?.(currentTime, duration);
+            },
+            onError: (error) => {
+              if (!cancelled) listenersRef.current.onError?.(error);
+            },
+          },
+          { autoplay: autoplayRef.current }
+        )
+        .then((controller) => {
+          if (cancelled) controller.destroy();
+          else controllerRef.current = controller;
+        })
+        .catch((err) => {
+          if (cancelled) return;
+          const message = err.message || String(err);
+          setLoadError(message);
+          listenersRef.current.onError?.({ code: "load_failed", message });
+        });
+
+      return () => {
+        cancelled = true;
+        controllerRef.current?.destroy();
+        controllerRef.current = null;
+        container.replaceChildren();
+      };
+    }, [provider, videoId, playlistId]);
+
+    useImperativeHandle(
+      ref,
+      () => ({
+        play: () => controllerRef.current?.play(),
+        pause: () => controllerRef.current?.pause(),
+        seek: (seconds) => controllerRef.current?.seek(seconds),
+        getCurrentTime: () => controllerRef.current?.getCurrentTime() ?? 0,
+        getDuration: () => controllerRef.current?.getDuration() ?? 0,
+        getState: () => controllerRef.current?.getState() ?? "unstarted",
+      }),
+      []
+    );
+
+    const message = !source
+      ? "No playable source"
+      : !provider
+        ? "Unsupported video source"
+        : loadError
+          ? "The player failed to load"
+          : null;
+
+    return (
+      <div className={cn("mx-auto w-full max-w-[420px] sm:max-w-[520px] md:max-w-[720px] lg:max-w-[960px]", className)}>
+        <AspectRatio ratio={16 / 9}>
+          <div
+            ref={containerRef}
+            role="region"
+            aria-label={title}
+            className={cn("h-full w-full overflow-hidden rounded-lg border [&_iframe]:h-full [&_iframe]:w-full", message && "hidden")}
+          />
+          {message && (
+            <div className="flex h-full w-full items-center justify-center rounded-lg border text-sm text-muted-foreground">
+              {message}
+            </div>
+          )}
+          {children}
+        </AspectRatio>
+      </div>
+    );
+  }
+);
+
+VideoPlayer.displayName = "VideoPlayer";
+
+export default VideoPlayer;
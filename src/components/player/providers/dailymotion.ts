@@ -0,0 +1,123 @@
+import { loadScript } from "@/lib/load-script";
+import { extractDailymotionId } from "@/lib/video-ids";
+import type { PlayerProvider, PlayerState } from "./types";
+
+// The parts of the Player SDK used here:
+// https://developers.dailymotion.com/sdk/player-sdk/web/
+interface DailymotionState {
+  videoTime?: number;
+  videoDuration?: number;
+  playerError?: { code?: string; title?: string; message?: string } | null;
+}
+
+interface DailymotionPlayer {
+  play: () => void;
+  pause: () => void;
+  seek: (seconds: number) => void;
+  on: (event: string, handler: (state: DailymotionState) => void) => void;
+  off: (event: string, handler?: (state: DailymotionState) => void) => void;
+}
+
+interface DailymotionSdk {
+  createPlayer: (
+    elementId: string,
+    options: { video?: string; playlist?: string; params?: Record<string, string | number | boolean> }
+  ) => Promise<DailymotionPlayer>;
+  destroy?: (elementId: string) => void;
+  events: Record<string, string>;
+}
+
+declare global {
+  interface Window {
+    dailymotion?: DailymotionSdk;
+  }
+}
+
+const playerId = import.meta.env.VITE_DAILYMOTION_PLAYER_ID;
+const SDK_URL = playerId ? `https://geo.dailymotion.com/libs/player/${playerId}.js` : "https://geo.dailymotion.com/libs/player.js";
+
+const loadSdk = async () => {
+  await loadScript(SDK_URL);
+  if (!window.dailymotion) throw new Error("Dailymotion player SDK did not initialise");
+  return window.dailymotion;
+};
+
+let nextElementId = 0;
+
+const dailymotion: PlayerProvider = {
+  id: "dailymotion",
+  label: "Dailymotion",
+  playlistColumn: "dailymotion_playlist_id",
+  parseVideoId: extractDailymotionId,
+  parsePlaylistId: (input) => {
+    const clean = input.trim().split("?")[0];
+    const fromUrl = clean.match(/playlist\/([A-Za-z0-9]+)/i);
+    return fromUrl ? fromUrl[1] : clean;
+  },
+  mount: async (element, source, callbacks, options = {}) => {
+    const sdk = await loadSdk();
+    // createPlayer looks the element up by id
+    if (!element.id) element.id = `dailymotion-player-${++nextElementId}`;
+    const player = await sdk.createPlayer(element.id, {
+      ...(source.playlistId
+        ? { playlist: dailymotion.parsePlaylistId(source.playlistId) }
+        : { video: dailymotion.parseVideoId(source.videoId ?? "") }),
+      params: { "queue-enable": false, "sharing-enable": false, "ui-start-screen-info": false, mute: false },
+    });
+
+    let state: PlayerState = "unstarted";
+    let time = 0;
+    let length = 0;
+
+    const track = ({ videoTime, videoDuration }: DailymotionState) => {
+      if (typeof videoTime === "number") time = videoTime;
+      if (typeof videoDuration === "number") length = videoDuration;
+    };
+    const setState = (next: PlayerState) => (payload: DailymotionState) => {
+      track(payload);
+      if (next === state) return;
+      state = next;
+      callbacks.onStateChange?.(next);
+    };
+    const handlers: [string, (payload: DailymotionState) => void][] = [
+      [sdk.events.VIDEO_PLAYING, setState("playing")],
+      [sdk.events.VIDEO_PAUSE, setState("paused")],
+      [sdk.events.VIDEO_END, setState("ended")],
+      [
+        sdk.events.VIDEO_TIMECHANGE,
+        (payload) => {
+          track(payload);
+          callbacks.onTimeUpdate?.(time, length);
+        },
+      ],
+      [sdk.events.VIDEO_DURATIONCHANGE, track],
+      [
+        sdk.events.PLAYER_ERROR,
+        ({ playerError }) => {
+          callbacks.onError?.({
+            code: playerError?.code ?? "unknown",
+            message: playerError?.message || playerError?.title || "The video could not be played",
+          });
+        },
+      ],
+    ];
+    for (const [event, handler] of handlers) player.on(event, handler);
+    callbacks.onReady?.();
+    if (options.autoplay) player.play();
+
+    return {
+      play: () => player.play(),
+      pause: () => player.pause(),
+      seek: (seconds) => player.seek(seconds),
+      getCurrentTime: () => time,
+      getDuration: () => length,
+      getState: () => state,
+      destroy: () => {
+        for (const [event, handler] of handlers) player.off(event, handler);
+        sdk.destroy?.(element.id);
+      },
+    };
+  },
+};
+
+export default dailymotion;
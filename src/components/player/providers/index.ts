@@ -0,0 +1,64 @@
+import dailymotion from "./dailymotion";
+import youtube from "./youtube";
+import type { PlayerProvider, VideoSource } from "./types";
+
+export type {
+  PlayerCallbacks,
+  PlayerController,
+  MountOptions,
+  PlayerError,
+  PlayerProvider,
+  PlayerState,
+  VideoSource,
+} from "./types";
+
+// Registration order is preference order when a series has playlists on several providers
+const providers: PlayerProvider[] = [];
+
+// A row of episode_sources
+export interface EpisodeMirror {
+  id: string;
+  provider: string;
+  video_id: string;
+  priority: number;
+  language: string | null;
+  label: string | null;
+}
+
+export const registerProvider = (provider: PlayerProvider) => {
+  if (providers.some((p) => p.id === provider.id)) {
+    throw new Error(`Player provider "${provider.id}" is already registered`);
+  }
+  providers.push(provider);
+};
+
+export const getProvider = (id: string) => providers.find((p) => p.id === id);
+
+export const listProviders = (): readonly PlayerProvider[] => providers;
+
+// Mirrors this client can play, in the order to try them
+export const playableMirrors = (mirrors: EpisodeMirror[] | null | undefined) =>
+  (mirrors ?? []).filter((m) => getProvider(m.provider)).sort((a, b) => a.priority - b.priority);
+
+export const mirrorSource = (mirror: EpisodeMirror): VideoSource => ({ provider: mirror.provider, videoId: mirror.video_id });
+
+export const isMirrorOf = (mirror: EpisodeMirror, source: VideoSource | undefined) =>
+  !!source && mirror.provider === source.provider && mirror.video_id === source.videoId;
+
+// "Dub" or "Dailymotion", plus the language when set: "Dailymotion · EN"
+export const mirrorLabel = (mirror: EpisodeMirror) =>
+  [mirror.label || getProvider(mirror.provider)?.label || mirror.provider, mirror.language?.toUpperCase()]
+    .filter(Boolean)
+    .join(" · ");
+
+// First registered provider with a playlist on the series
+export const playlistSource = (series: Record<string, unknown>): VideoSource | undefined => {
+  for (const provider of providers) {
+    const playlistId = series[provider.playlistColumn];
+    if (typeof playlistId === "string" && playlistId) return { provider: provider.id, playlistId };
+  }
+  return undefined;
+};
+
+registerProvider(dailymotion);
+registerProvider(youtube);
@@ -0,0 +1,55 @@
+export type PlayerState = "unstarted" | "playing" | "paused" | "buffering" | "ended";
+
+// What to play: a single video or a playlist on one provider
+export interface VideoSource {
+  provider: string;
+  videoId?: string;
+  playlistId?: string;
+}
+
+export interface PlayerError {
+  // Provider-specific error code, kept as reported
+  code: string;
+  message: string;
+}
+
+export interface PlayerCallbacks {
+  onReady?: () => void;
+  onStateChange?: (state: PlayerState) => void;
+  // Fired about once a second while playing, and after seeking
+  onTimeUpdate?: (currentTime: number, duration: number) => void;
+  onError?: (error: PlayerError) => void;
+}
+
+export interface MountOptions {
+  // Start playing as soon as the player is ready, e.g. when moving on to the next episode
+  autoplay?: boolean;
+}
+
+export interface PlayerController {
+  play: () => void;
+  pause: () => void;
+  seek: (seconds: number) => void;
+  // Last known position and length in seconds; 0 until the video has loaded
+  getCurrentTime: () => number;
+  getDuration: () => number;
+  getState: () => PlayerState;
+  destroy: () => void;
+}
+
+export interface PlayerProvider {
+  id: string;
+  label: string;
+  // Series column holding this provider's playlist id
+  playlistColumn: string;
+  // Accept a bare id or any URL form a user might paste
+  parseVideoId: (input: string) => string;
+  parsePlaylistId: (input: string) => string;
+  // Load the provider's SDK if needed and create a player in place of `element`
+  mount: (
+    element: HTMLElement,
+    source: VideoSource,
+    callbacks: PlayerCallbacks,
+    options?: MountOptions
+  ) => Promise<PlayerController>;
+}
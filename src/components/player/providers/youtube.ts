@@ -0,0 +1,159 @@
+import { loadScript } from "@/lib/load-script";
+import { extractYouTubeId } from "@/lib/video-ids";
+import type { PlayerProvider, PlayerState } from "./types";
+
+// The parts of the IFrame API used here:
+// https://developers.google.com/youtube/iframe_api_reference
+interface YTPlayer {
+  playVideo: () => void;
+  pauseVideo: () => void;
+  seekTo: (seconds: number, allowSeekAhead: boolean) => void;
+  getCurrentTime: () => number;
+  getDuration: () => number;
+  destroy: () => void;
+}
+
+interface YTPlayerOptions {
+  width?: string;
+  height?: string;
+  videoId?: string;
+  playerVars?: Record<string, string | number>;
+  events?: {
+    onReady?: () => void;
+    onStateChange?: (event: { data: number }) => void;
+    onError?: (event: { data: number }) => void;
+  };
+}
+
+interface YTNamespace {
+  Player: new (element: HTMLElement, options: YTPlayerOptions) => YTPlayer;
+}
+
+declare global {
+  interface Window {
+    YT?: YTNamespace;
+    onYouTubeIframeAPIReady?: () => void;
+  }
+}
+
+const STATES: Record<number, PlayerState> = { [-1]: "unstarted", 0: "ended", 1: "playing", 2: "paused", 3: "buffering", 5: "unstarted" };
+
+const ERRORS: Record<number, string> = {
+  2: "Invalid video id",
+  5: "The video cannot be played in this browser",
+  100: "The video was removed or is private",
+  101: "The owner does not allow embedding this video",
+  150: "The owner does not allow embedding this video",
+};
+
+let api: Promise<YTNamespace> | null = null;
+
+// The script calls window.onYouTubeIframeAPIReady once YT.Player is usable
+const loadApi = () => {
+  if (!api) {
+    api = new Promise((resolve, reject) => {
+      if (window.YT?.Player) {
+        resolve(window.YT);
+        return;
+      }
+      const previous = window.onYouTubeIframeAPIReady;
+      window.onYouTubeIframeAPIReady = () => {
+        previous?.();
+        resolve(window.YT!);
+      };
+      loadScript("https://www.youtube.com/iframe_api").catch((err) => {
+        api = null;
+        reject(err);
+      });
+    });
+  }
+  return api;
+};
+
+const youtube: PlayerProvider = {
+  id: "youtube",
+  label: "YouTube",
+  playlistColumn: "youtube_playlist_id",
+  parseVideoId: extractYouTubeId,
+  parsePlaylistId: (input) => {
+    try {
+      const url = new URL(input);
+      if (url.hostname.includes("youtube.com")) {
+        const list = url.searchParams.get("list");
+        if (list) return list;
+      }
+    } catch {
+      // not a URL; assume it's an ID
+    }
+    return input.trim();
+  },
+  mount: async (element, source, callbacks, options = {}) => {
+    const YT = await loadApi();
+    let ready = false;
+    let state: PlayerState = "unstarted";
+    let ticker: ReturnType<typeof setInterval> | null = null;
+
+    const currentTime = () => (ready ? player.getCurrentTime() : 0);
+    const duration = () => (ready ? player.getDuration() : 0);
+    const reportTime = () => callbacks.onTimeUpdate?.(currentTime(), duration());
+    // The API has no time event, so poll while playing
+    const stopTicker = () => {
+      if (ticker) clearInterval(ticker);
+      ticker = null;
+    };
+
+    const player = new YT.Player(element, {
+      width: "100%",
+      height: "100%",
+      videoId: source.playlistId ? undefined : youtube.parseVideoId(source.videoId ?? ""),
+      playerVars: {
+        playsinline: 1,
+        autoplay: options.autoplay ? 1 : 0,
+        rel: 0,
+        origin: window.location.origin,
+        ...(source.playlistId ? { listType: "playlist", list: youtube.parsePlaylistId(source.playlistId) } : {}),
+      },
+      events: {
+        onReady: () => {
+          ready = true;
+          callbacks.onReady?.();
+        },
+        onStateChange: ({ data }) => {
+          const next = STATES[data];
+          if (!next || next === state) return;
+          state = next;
+          stopTicker();
+          if (next === "playing") ticker = setInterval(reportTime, 1000);
+          reportTime();
+          callbacks.onStateChange?.(next);
+        },
+        onError: ({ data }) => {
+          callbacks.onError?.({ code: String(data), message: ERRORS[data] ?? "The video could not be played" });
+        },
+      },
+    });
+
+    return {
+      play: () => {
+        if (ready) player.playVideo();
+      },
+      pause: () => {
+        if (ready) player.pauseVideo();
+      },
+      seek: (seconds) => {
+        if (!ready) return;
+        player.seekTo(seconds, true);
+        reportTime();
+      },
+      getCurrentTime: currentTime,
+      getDuration: duration,
+      getState: () => state,
+      destroy: () => {
+        stopTicker();
+        player.destroy();
+      },
+    };
+  },
+};
+
+export default youtube;
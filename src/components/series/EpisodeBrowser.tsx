@@ -0,0 +1,244 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { ChevronsDown, Search } from "lucide-react";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import EpisodeCard, { type EpisodeCardData } from "./EpisodeCard";
+
+const CHUNK_SIZE = 50;
+const ALL_SEASONS = "all";
+// Accordion values must be strings; episodes without a season share one group
+const NO_SEASON = "none";
+
+interface EpisodeBrowserProps {
+  episodes: EpisodeCardData[];
+  activeEpisodeId?: string;
+  onSelect: (episode: EpisodeCardData) => void;
+  /** Watched fraction (0-1) per episode id, shown as a bar on each card */
+  progress?: Record<string, number>;
+}
+
+interface SeasonGroup {
+  key: string;
+  label: string;
+  episodes: EpisodeCardData[];
+}
+
+const seasonKey = (ep: EpisodeCardData) => (ep.season_number == null ? NO_SEASON : String(ep.season_number));
+
+// Episodes arrive ordered by season then episode number; keep that order within groups
+const groupBySeason = (episodes: EpisodeCardData[]): SeasonGroup[] => {
+  const groups = new Map<string, EpisodeCardData[]>();
+  for (const ep of episodes) {
+    const key = seasonKey(ep);
+    groups.set(key, [...(groups.get(key) ?? []), ep]);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => (a === NO_SEASON ? 1 : b === NO_SEASON ? -1 : Number(a) - Number(b)))
+    .map(([key, eps]) => ({ key, label: key === NO_SEASON ? "Other episodes" : `Season ${key}`, episodes: eps }));
+};
+
+const chunkKey = (index: number) => String(Math.floor(index / CHUNK_SIZE));
+
+// "1–50" from episode numbers when both ends have one, otherwise from list positions
+const chunkLabel = (chunk: EpisodeCardData[], start: number) => {
+  const first = chunk[0]?.episode_number;
+  const last = chunk[chunk.length - 1]?.episode_number;
+  return first != null && last != null ? `${first}–${last}` : `${start + 1}–${start + chunk.length}`;
+};
+
+const matchesQuery = (ep: EpisodeCardData, query: string) => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  if (/^\d+$/.test(q)) return ep.episode_number === Number(q) || ep.title.toLowerCase().includes(q);
+  return ep.title.toLowerCase().includes(q);
+};
+
+const EpisodeBrowser = ({ episodes, activeEpisodeId, onSelect, progress }: EpisodeBrowserProps) => {
+  const seasons = useMemo(() => groupBySeason(episodes), [episodes]);
+  const [seasonFilter, setSeasonFilter] = useState(ALL_SEASONS);
+  const [openSeasons, setOpenSeasons] = useState<string[]>([]);
+  const [chunkBySeason, setChunkBySeason] = useState<Record<string, string>>({});
+  const [query, setQuery] = useState("");
+  const [scrollTarget, setScrollTarget] = useState<string | null>(null);
+  // Last episode opened automatically, so refetches don't undo a manual collapse
+  const revealedFor = useRef<string | null>(null);
+  // Season opened while no episode is current yet; replaced once one is
+  const fallbackSeason = useRef<string | null>(null);
+
+  // Open the season and chunk holding the current episode whenever it changes.
+  // Until there is one (it is set after the first render, or never on a
+  // playlist page), open the first season.
+  useEffect(() => {
+    if (seasons.length === 0) return;
+    const active = activeEpisodeId ? episodes.find((ep) => ep.id === activeEpisodeId) : undefined;
+    if (!active) {
+      if (revealedFor.current || fallbackSeason.current) return;
+      fallbackSeason.current = seasons[0].key;
+      setOpenSeasons([seasons[0].key]);
+      return;
+    }
+    if (revealedFor.current === active.id) return;
+    revealedFor.current = active.id;
+    const fallback = fallbackSeason.current;
+    fallbackSeason.current = null;
+    const key = seasonKey(active);
+    const index = seasons.find((s) => s.key === key)?.episodes.findIndex((e) => e.id === active.id) ?? 0;
+    setSeasonFilter((prev) => (prev === ALL_SEASONS || prev === key ? prev : key));
+    setOpenSeasons((prev) => {
+      if (prev.length === 1 && prev[0] === fallback) return [key];
+      return prev.includes(key) ? prev : [...prev, key];
+    });
+    setChunkBySeason((prev) => ({ ...prev, [key]: chunkKey(index) }));
+  }, [seasons, episodes, activeEpisodeId]);
+
+  useEffect(() => {
+    if (!scrollTarget) return;
+    document.getElementById(`episode-${scrollTarget}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    setScrollTarget(null);
+  }, [scrollTarget, openSeasons, chunkBySeason]);
+
+  const reveal = (ep: EpisodeCardData) => {
+    const key = seasonKey(ep);
+    const group = seasons.find((s) => s.key === key);
+    const index = group?.episodes.findIndex((e) => e.id === ep.id) ?? 0;
+    setQuery("");
+    setSeasonFilter((prev) => (prev === ALL_SEASONS || prev === key ? prev : key));
+    setOpenSeasons((prev) => (prev.includes(key) ? prev : [...prev, key]));
+    setChunkBySeason((prev) => ({ ...prev, [key]: chunkKey(index) }));
+    setScrollTarget(ep.id);
+  };
+
+  const handleJumpToLatest = () => {
+    // "Other episodes" sorts last but is not the latest; prefer the last numbered season
+    const numbered = seasons.filter((s) => s.key !== NO_SEASON);
+    const pool = numbered.length > 0 ? numbered : seasons;
+    const lastSeason = pool[pool.length - 1];
+    const target = lastSeason?.episodes[lastSeason.episodes.length - 1];
+    if (!target) return;
+    reveal(target);
+    onSelect(target);
+  };
+
+  const visibleSeasons = seasonFilter === ALL_SEASONS ? seasons : seasons.filter((s) => s.key === seasonFilter);
+  const searchResults = query.trim()
+    ? visibleSeasons.flatMap((s) => s.episodes).filter((ep) => matchesQuery(ep, query))
+    : null;
+
+  const renderGrid = (list: EpisodeCardData[]) => (
+    <ul className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+      {list.map((ep) => (
+        <EpisodeCard
+          key={ep.id}
+          episode={ep}
+          isActive={ep.id === activeEpisodeId}
+          progress={progress?.[ep.id]}
+          onSelect={() => onSelect(ep)}
+        />
+      ))}
+    </ul>
+  );
+
+  const renderSeason = (season: SeasonGroup) => {
+    if (season.episodes.length <= CHUNK_SIZE) return renderGrid(season.episodes);
+    const chunks: EpisodeCardData[][] = [];
+    for (let i = 0; i < season.episodes.length; i += CHUNK_SIZE) chunks.push(season.episodes.slice(i, i + CHUNK_SIZE));
+    return (
+      <Tabs
+        value={chunkBySeason[season.key] ?? "0"}
+        onValueChange={(value) => setChunkBySeason((prev) => ({ ...prev, [season.key]: value }))}
+      >
+        <TabsList className="mb-4 h-auto flex-wrap justify-start">
+          {chunks.map((chunk, i) => (
+            <TabsTrigger key={i} value={String(i)}>
+              {chunkLabel(chunk, i * CHUNK_SIZE)}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+        {chunks.map((chunk, i) => (
+          <TabsContent key={i} value={String(i)}>
+            {renderGrid(chunk)}
+          </TabsContent>
+        ))}
+      </Tabs>
+    );
+  };
+
+  return (
+    <div className="grid gap-4">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            type="search"
+            placeholder="Search episodes by title or number"
+            aria-label="Search episodes"
+            className="pl-9"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        </div>
+        {seasons.length > 1 && (
+          <Select
+            value={seasonFilter}
+            onValueChange={(value) => {
+              setSeasonFilter(value);
+              if (value !== ALL_SEASONS) setOpenSeasons((prev) => (prev.includes(value) ? prev : [...prev, value]));
+            }}
+          >
+            <SelectTrigger className="sm:w-44" aria-label="Season">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_SEASONS}>All seasons</SelectItem>
+              {seasons.map((s) => (
+                <SelectItem key={s.key} value={s.key}>
+                  {s.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Button variant="outline" onClick={handleJumpToLatest}>
+          <ChevronsDown className="mr-2 h-4 w-4" />
+          Jump to latest
+        </Button>
+      </div>
+
+      {searchResults ? (
+        searchResults.length > 0 ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {searchResults.length} matching episode{searchResults.length === 1 ? "" : "s"}
+            </p>
+            {renderGrid(searchResults)}
+          </>
+        ) : (
+          <p className="py-8 text-center text-muted-foreground">No episodes match "{query.trim()}"</p>
+        )
+      ) : seasons.length === 1 ? (
+        renderSeason(seasons[0])
+      ) : (
+        <Accordion type="multiple" value={openSeasons} onValueChange={setOpenSeasons}>
+          {visibleSeasons.map((season) => (
+            <AccordionItem key={season.key} value={season.key}>
+              <AccordionTrigger>
+                <span>
+                  {season.label}
+                  <span className="ml-2 text-sm font-normal text-muted-foreground">
+                    {season.episodes.length} episode{season.episodes.length === 1 ? "" : "s"}
+                  </span>
+                </span>
+              </AccordionTrigger>
+              <AccordionContent>{renderSeason(season)}</AccordionContent>
+            </AccordionItem>
+          ))}
+        </Accordion>
+      )}
+    </div>
+  );
+};
+
+export default EpisodeBrowser;
@@ -0,0 +1,90 @@
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { AspectRatio } from "@/components/ui/aspect-ratio";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import { formatDuration } from "@/lib/duration";
+import { episodeLabel } from "@/lib/episode-label";
+import { videoThumbnailUrl } from "@/lib/video-ids";
+
+export interface EpisodeCardData {
+  id: string;
+  title: string;
+  season_number: number | null;
+  episode_number: number | null;
+  dailymotion_video_id: string | null;
+  youtube_video_id: string | null;
+  thumbnail_url: string | null;
+  duration_seconds: number | null;
+  uploaded_at: string | null;
+  provider_channel: string | null;
+}
+
+interface EpisodeCardProps {
+  episode: EpisodeCardData;
+  isActive: boolean;
+  /** Watched fraction, 0-1 */
+  progress?: number;
+  onSelect: () => void;
+}
+
+// Older rows have no stored thumbnail; fall back to the provider's public one
+const thumbnailFor = (ep: EpisodeCardData) => {
+  if (ep.thumbnail_url) return ep.thumbnail_url;
+  if (ep.dailymotion_video_id) return videoThumbnailUrl("dailymotion", ep.dailymotion_video_id);
+  if (ep.youtube_video_id) return videoThumbnailUrl("youtube", ep.youtube_video_id);
+  return null;
+};
+
+const EpisodeCard = ({ episode, isActive, progress, onSelect }: EpisodeCardProps) => {
+  const thumbnail = thumbnailFor(episode);
+  const label = episodeLabel(episode);
+
+  return (
+    <li
+      id={`episode-${episode.id}`}
+      role="button"
+      tabIndex={0}
+      aria-current={isActive ? "true" : undefined}
+      onClick={onSelect}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") onSelect();
+      }}
+      className={cn(
+        "group overflow-hidden rounded-md border transition-colors hover:bg-accent",
+        isActive && "border-primary ring-1 ring-primary"
+      )}
+    >
+      <AspectRatio ratio={16 / 9} className="bg-muted">
+        {thumbnail && (
+          <img src={thumbnail} alt="" loading="lazy" className="h-full w-full object-cover" />
+        )}
+        {episode.duration_seconds != null && (
+          <Badge variant="secondary" className="absolute bottom-2 right-2 bg-black/75 px-1.5 py-0 text-xs text-white hover:bg-black/75">
+            {formatDuration(episode.duration_seconds)}
+          </Badge>
+        )}
+        {progress > 0 && (
+          <Progress
+            value={progress * 100}
+            aria-label="Watched"
+            className="absolute inset-x-0 bottom-0 h-1 rounded-none bg-black/40"
+          />
+        )}
+      </AspectRatio>
+      <div className="grid gap-1 p-3">
+        {label && <span className="text-xs font-medium text-muted-foreground">{label}</span>}
+        <span className="line-clamp-2 font-medium">{episode.title}</span>
+        {(episode.provider_channel || episode.uploaded_at) && (
+          <span className="text-xs text-muted-foreground">
+            {episode.provider_channel}
+            {episode.provider_channel && episode.uploaded_at && " · "}
+            {episode.uploaded_at && format(new Date(episode.uploaded_at), "MMM d, yyyy")}
+          </span>
+        )}
+      </div>
+    </li>
+  );
+};
+
+export default EpisodeCard;
@@ -0,0 +1,54 @@
+import { Link } from "react-router-dom";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { episodePath, type SeriesRef } from "@/lib/routes";
+import { episodeLabel } from "@/lib/episode-label";
+import type { EpisodeCardData } from "./EpisodeCard";
+
+interface EpisodeNavProps {
+  series: SeriesRef;
+  episode: EpisodeCardData;
+  previous?: EpisodeCardData;
+  next?: EpisodeCardData;
+}
+
+const EpisodeNav = ({ series, episode, previous, next }: EpisodeNavProps) => {
+  const label = episodeLabel(episode);
+
+  return (
+    <nav aria-label="Episode navigation" className="mt-4 flex flex-wrap items-center gap-3">
+      {previous ? (
+        <Button asChild variant="outline">
+          <Link to={episodePath(series, previous.id)} title={previous.title}>
+            <ChevronLeft className="mr-1 h-4 w-4" />
+            Previous
+          </Link>
+        </Button>
+      ) : (
+        <Button variant="outline" disabled>
+          <ChevronLeft className="mr-1 h-4 w-4" />
+          Previous
+        </Button>
+      )}
+      <div className="min-w-0 flex-1 text-center">
+        {label && <p className="text-xs font-medium text-muted-foreground">{label}</p>}
+        <h2 className="truncate font-semibold">{episode.title}</h2>
+      </div>
+      {next ? (
+        <Button asChild variant="outline">
+          <Link to={episodePath(series, next.id)} title={next.title}>
+            Next
+            <ChevronRight className="ml-1 h-4 w-4" />
+          </Link>
+        </Button>
+      ) : (
+        <Button variant="outline" disabled>
+          Next
+          <ChevronRight className="ml-1 h-4 w-4" />
+        </Button>
+      )}
+    </nav>
+  );
+};
+
+export default EpisodeNav;
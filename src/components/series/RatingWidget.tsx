@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Star } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { cn } from "@/lib/utils";
+import { getViewerId } from "@/lib/viewer";
+
+interface RatingWidgetProps {
+  seriesId: string;
+  onRated?: () => void;
+}
+
+const STARS = [1, 2, 3, 4, 5];
+
+const RatingWidget = ({ seriesId, onRated }: RatingWidgetProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [hovered, setHovered] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: myRating } = useQuery({
+    queryKey: ["series-rating", seriesId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_viewer_rating", {
+        p_series_id: seriesId,
+        p_viewer_id: getViewerId(),
+      });
+      if (error) throw error;
+      return data ?? null;
+    },
+  });
+
+  const handleRate = async (rating: number) => {
+    if (rating === myRating) return;
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.rpc("rate_series", {
+        p_series_id: seriesId,
+        p_rating: rating,
+        p_viewer_id: getViewerId(),
+      });
+      if (error) throw error;
+      queryClient.setQueryData(["series-rating", seriesId], rating);
+      toast({ title: myRating ? "Rating updated" : "Thanks for rating!", description: `You rated this series ${rating} ★` });
+      onRated?.();
+    } catch (err) {
+      toast({ title: "Failed to rate", description: err.message || String(err), variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const shown = hovered ?? myRating ?? 0;
+
+  return (
+    <div className="flex items-center gap-2">
+      <div role="radiogroup" aria-label="Rate this series" className="flex" onMouseLeave={() => setHovered(null)}>
+        {STARS.map((star) => (
+          <button
+            key={star}
+            type="button"
+            role="radio"
+            aria-checked={myRating === star}
+            aria-label={`${star} star${star === 1 ? "" : "s"}`}
+            disabled={isSaving}
+            onMouseEnter={() => setHovered(star)}
+            onFocus={() => setHovered(star)}
+            onBlur={() => setHovered(null)}
+            onClick={() => handleRate(star)}
+            className="rounded p-0.5 transition-transform hover:scale-110 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring disabled:opacity-50"
+          >
+            <Star className={cn("h-5 w-5", star <= shown ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground")} />
+          </button>
+        ))}
+      </div>
+      <span className="text-sm text-muted-foreground">{myRating ? `Your rating: ${myRating}` : "Rate this series"}</span>
+    </div>
+  );
+};
+
+export default RatingWidget;
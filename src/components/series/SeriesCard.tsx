@@ -0,0 +1,61 @@
+import { Link } from "react-router-dom";
+import { Eye, Star, MessageCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { seriesPath } from "@/lib/routes";
+
+export interface SeriesCardData {
+  id: string;
+  slug: string | null;
+  title: string;
+  description: string | null;
+  cover_image_url: string | null;
+  views_count: number | null;
+  rating_sum: number;
+  rating_count: number;
+  comment_count?: unknown;
+}
+
+interface SeriesCardProps {
+  series: SeriesCardData;
+}
+
+const SeriesCard = ({ series: s }: SeriesCardProps) => {
+  const avg = s.rating_count > 0 ? (s.rating_sum / s.rating_count).toFixed(1) : "0.0";
+  const commentCount = Array.isArray(s.comment_count) ? s.comment_count.length : 0;
+  return (
+    <Link to={seriesPath(s)} className="group">
+      <Card className="overflow-hidden">
+        <div className="relative aspect-[3/4] w-full overflow-hidden">
+          <img
+            src={s.cover_image_url || "/placeholder.svg"}
+            alt={`${s.title} cover image`}
+            loading="lazy"
+            className="h-full w-full object-cover transition-transform duration-300 group-hover:scale-105"
+          />
+          <div className="absolute left-2 top-2 flex items-center gap-1 rounded-md bg-background/80 px-2 py-1 text-xs text-foreground backdrop-blur">
+            <Eye className="mr-1 h-3 w-3" /> {s.views_count ?? 0}
+          </div>
+          <div className="absolute bottom-2 left-2 flex items-center gap-1 rounded-md bg-background/80 px-2 py-1 text-xs text-foreground backdrop-blur">
+            <Star className="mr-1 h-3 w-3 fill-yellow-500 text-yellow-500" /> {avg}
+            <span className="text-muted-foreground">({s.rating_count})</span>
+          </div>
+          {commentCount > 0 && (
+            <div className="absolute bottom-2 right-2 flex items-center gap-1 rounded-md bg-background/80 px-2 py-1 text-xs text-foreground backdrop-blur">
+              <MessageCircle className="mr-1 h-3 w-3" /> {commentCount}
+            </div>
+          )}
+        </div>
+        <CardHeader className="p-3">
+          <CardTitle className="line-clamp-1 text-base">{s.title}</CardTitle>
+        </CardHeader>
+        {s.description && (
+          <CardContent className="p-3 pt-0">
+            <p className="line-clamp-2 text-xs text-muted-foreground">{s.description}</p>
+          </CardContent>
+        )}
+      </Card>
+    </Link>
+  );
+};
+
+export default SeriesCard;
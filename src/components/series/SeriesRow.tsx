@@ -0,0 +1,29 @@
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from "@/components/ui/carousel";
+import SeriesCard, { type SeriesCardData } from "./SeriesCard";
+
+interface SeriesRowProps {
+  title: string;
+  series: SeriesCardData[];
+}
+
+const SeriesRow = ({ title, series }: SeriesRowProps) => {
+  if (series.length === 0) return null;
+  return (
+    <section aria-label={title} className="mb-8">
+      <h2 className="mb-3 text-xl font-semibold">{title}</h2>
+      <Carousel opts={{ align: "start", dragFree: true }} className="md:mx-12">
+        <CarouselContent>
+          {series.map((s) => (
+            <CarouselItem key={s.id} className="basis-1/2 sm:basis-1/3 lg:basis-1/4 xl:basis-1/6">
+              <SeriesCard series={s} />
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        <CarouselPrevious className="hidden md:flex" />
+        <CarouselNext className="hidden md:flex" />
+      </Carousel>
+    </section>
+  );
+};
+
+export default SeriesRow;
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useState } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type AdminRole = Database["public"]["Enums"]["admin_role"];
+
+// Roles allowed to create, edit and delete series and episodes
+export const CONTENT_ROLES: AdminRole[] = ["owner", "editor"];
+
+export function hasRole(role: AdminRole | null | undefined, allowed: AdminRole[]) {
+  return !!role && allowed.includes(role);
+}
+
+export function useAdminAuth() {
+  const queryClient = useQueryClient();
+  const [session, setSession] = useState<Session | null>(null);
+  const [isSessionLoading, setIsSessionLoading] = useState(true);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setIsSessionLoading(false);
+    });
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, next) => {
+      setSession(next);
+      setIsSessionLoading(false);
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const userId = session?.user.id;
+
+  const { data: role, isLoading: isRoleLoading } = useQuery({
+    queryKey: ["admin-role", userId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("admin_roles")
+        .select("role")
+        .eq("user_id", userId)
+        .maybeSingle();
+      if (error) throw error;
+      return data?.role ?? null;
+    },
+    enabled: !!userId,
+  });
+
+  const signOut = useCallback(async () => {
+    await supabase.auth.signOut();
+    queryClient.removeQueries({ queryKey: ["admin-role"] });
+  }, [queryClient]);
+
+  return {
+    session,
+    user: session?.user ?? null,
+    role: role ?? null,
+    isLoading: isSessionLoading || (!!userId && isRoleLoading),
+    signOut,
+  };
+}
@@ -0,0 +1,15 @@
+import { useCallback, useState } from "react";
+
+const AUTOPLAY_KEY = "autoplay_next";
+
+/** Whether to move on to the next episode automatically; remembered per browser, on by default. */
+export function useAutoplayNext() {
+  const [enabled, setEnabled] = useState(() => localStorage.getItem(AUTOPLAY_KEY) !== "false");
+
+  const update = useCallback((next: boolean) => {
+    localStorage.setItem(AUTOPLAY_KEY, String(next));
+    setEnabled(next);
+  }, []);
+
+  return [enabled, update] as const;
+}
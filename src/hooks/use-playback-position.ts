@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useRef } from "react";
+import { savePlaybackPosition, type PlaybackPosition } from "@/lib/playback-positions";
+
+const SAVE_INTERVAL_MS = 10_000;
+
+interface PositionTarget {
+  seriesId?: string;
+  episodeId?: string;
+}
+
+interface PositionState {
+  position: number;
+  duration: number;
+  dirty: boolean;
+  savedAt: number;
+}
+
+const initialState = (): PositionState => ({ position: 0, duration: 0, dirty: false, savedAt: Date.now() });
+
+/**
+ * Saves the current episode's position from the player's time updates: at
+ * most every 10 seconds while playing, and whenever playback pauses, ends,
+ * the tab is hidden or another episode is loaded. `onSaved` should be stable;
+ * it receives each saved position so the page can update without refetching.
+ */
+export function usePlaybackPosition(
+  { seriesId, episodeId }: PositionTarget,
+  onSaved?: (episodeId: string, position: PlaybackPosition) => void
+) {
+  const state = useRef<PositionState>(initialState());
+
+  const save = useCallback(() => {
+    const current = state.current;
+    if (!seriesId || !episodeId || !current.dirty || current.duration <= 0) return;
+    current.dirty = false;
+    current.savedAt = Date.now();
+    const position: PlaybackPosition = {
+      seriesId,
+      position: current.position,
+      duration: current.duration,
+      updatedAt: new Date().toISOString(),
+    };
+    onSaved?.(episodeId, position);
+    savePlaybackPosition(episodeId, position).catch((err) => console.error("Failed to save playback position:", err));
+  }, [seriesId, episodeId, onSaved]);
+
+  // Save what was reached in the previous episode, then start over
+  useEffect(() => {
+    state.current = initialState();
+    return () => save();
+  }, [save]);
+
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.visibilityState === "hidden") save();
+    };
+    document.addEventListener("visibilitychange", handleVisibility);
+    return () => document.removeEventListener("visibilitychange", handleVisibility);
+  }, [save]);
+
+  const onTimeUpdate = useCallback(
+    (currentTime: number, duration: number) => {
+      const current = state.current;
+      current.position = currentTime;
+      if (duration > 0) current.duration = duration;
+      current.dirty = true;
+      if (Date.now() - current.savedAt >= SAVE_INTERVAL_MS) save();
+    },
+    [save]
+  );
+
+  const onPause = useCallback(() => save(), [save]);
+
+  const onEnded = useCallback(() => {
+    const current = state.current;
+    current.position = current.duration;
+    current.dirty = true;
+    save();
+  }, [save]);
+
+  return { onTimeUpdate, onPause, onEnded };
+}
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+type PlaybackEvent = "start" | "progress" | "complete";
+
+interface PlaybackSegment {
+  started: boolean;
+  playingSince: number | null;
+}
+
+const elapsedSeconds = (segment: PlaybackSegment) =>
+  segment.playingSince ? Math.round((Date.now() - segment.playingSince) / 1000) : 0;
+
+/**
+ * Feeds the hourly `episode_playback_stats` buckets from player callbacks:
+ * one `start` per episode load, and the played seconds whenever playback
+ * pauses, ends, the tab is hidden or another episode is loaded.
+ */
+export function usePlaybackStats(episodeId?: string) {
+  const segment = useRef<PlaybackSegment>({ started: false, playingSince: null });
+
+  const send = useCallback(
+    (event: PlaybackEvent, watchedSeconds = 0) => {
+      if (!episodeId) return;
+      supabase
+        .rpc("record_playback", { p_episode_id: episodeId, p_event: event, p_watched_seconds: watchedSeconds })
+        .then(({ error }) => {
+          if (error) console.error("Failed to record playback:", error);
+        });
+    },
+    [episodeId]
+  );
+
+  const flush = useCallback(
+    (event: "progress" | "complete", keepPlaying = false) => {
+      const current = segment.current;
+      const seconds = elapsedSeconds(current);
+      current.playingSince = keepPlaying && current.playingSince ? Date.now() : null;
+      if (seconds > 0 || event === "complete") send(event, seconds);
+    },
+    [send]
+  );
+
+  // Report what was played of the previous episode, then start over
+  useEffect(() => {
+    segment.current = { started: false, playingSince: null };
+    return () => flush("progress");
+  }, [flush]);
+
+  // Closing or switching tabs may never produce a pause event
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.visibilityState === "hidden") flush("progress", true);
+    };
+    document.addEventListener("visibilitychange", handleVisibility);
+    return () => document.removeEventListener("visibilitychange", handleVisibility);
+  }, [flush]);
+
+  const onPlay = useCallback(() => {
+    const current = segment.current;
+    if (!current.started) {
+      current.started = true;
+      send("start");
+    }
+    current.playingSince ??= Date.now();
+  }, [send]);
+
+  const onPause = useCallback(() => flush("progress"), [flush]);
+  const onEnded = useCallback(() => flush("complete"), [flush]);
+
+  return { onPlay, onPause, onEnded };
+}
@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { getViewerId } from "@/lib/viewer";
+
+// Must match min_watch_seconds in record_view; the server times the session and ignores earlier reports
+export const MIN_WATCH_SECONDS = 30;
+// Extra wait before reporting, so the server clock has passed the minimum even if start_view landed late
+const REPORT_LEEWAY_MS = 2000;
+
+interface ViewTarget {
+  seriesId?: string;
+  episodeId?: string;
+  /** Changes whenever a different video is loaded, even within the same episode. */
+  videoKey?: string;
+}
+
+interface PlaybackState {
+  watchedMs: number;
+  playingSince: number | null;
+  timer: ReturnType<typeof setTimeout> | null;
+  // Id from `start_view`, requested on the first play of each video
+  session: Promise<string | null> | null;
+  reported: boolean;
+}
+
+const stopTimer = (state: PlaybackState) => {
+  if (state.timer) clearTimeout(state.timer);
+  state.timer = null;
+};
+
+const watchedSeconds = (state: PlaybackState) =>
+  Math.floor((state.watchedMs + (state.playingSince ? Date.now() - state.playingSince : 0)) / 1000);
+
+/**
+ * Opens a view session through `start_view` when the current video first plays
+ * and reports it through `record_view` once MIN_WATCH_SECONDS have been
+ * watched. The server times the session and decides whether the view counts;
+ * this only avoids calling it more than once per load.
+ */
+export function useViewTracker({ seriesId, episodeId, videoKey }: ViewTarget, onCounted?: () => void) {
+  const state = useRef<PlaybackState>({ watchedMs: 0, playingSince: null, timer: null, session: null, reported: false });
+
+  const startSession = useCallback(() => {
+    const current = state.current;
+    if (current.session || !seriesId) return;
+    current.session = (async () => {
+      const { data, error } = await supabase.rpc("start_view", {
+        p_series_id: seriesId,
+        p_episode_id: episodeId ?? null,
+        p_viewer_id: getViewerId(),
+      });
+      if (error) {
+        console.error("Failed to start view:", error);
+        return null;
+      }
+      return data;
+    })();
+  }, [seriesId, episodeId]);
+
+  const report = useCallback(async () => {
+    const current = state.current;
+    if (current.reported || !current.session) return;
+    current.reported = true;
+    const sessionId = await current.session;
+    if (!sessionId) return;
+    const { data, error } = await supabase.rpc("record_view", { p_session_id: sessionId });
+    if (error) {
+      console.error("Failed to record view:", error);
+      return;
+    }
+    if ((data as { counted: boolean }).counted) onCounted?.();
+  }, [onCounted]);
+
+  // Start over for every new video
+  useEffect(() => {
+    const current = state.current;
+    stopTimer(current);
+    current.watchedMs = 0;
+    current.playingSince = null;
+    current.session = null;
+    current.reported = false;
+    return () => stopTimer(current);
+  }, [seriesId, episodeId, videoKey]);
+
+  const onPlay = useCallback(() => {
+    const current = state.current;
+    if (current.playingSince) return;
+    current.playingSince = Date.now();
+    if (current.reported) return;
+    startSession();
+    stopTimer(current);
+    current.timer = setTimeout(report, Math.max(MIN_WATCH_SECONDS * 1000 + REPORT_LEEWAY_MS - current.watchedMs, 0));
+  }, [report, startSession]);
+
+  const onPause = useCallback(() => {
+    const current = state.current;
+    if (current.playingSince) current.watchedMs += Date.now() - current.playingSince;
+    current.playingSince = null;
+    stopTimer(current);
+  }, []);
+
+  const getWatchedSeconds = useCallback(() => watchedSeconds(state.current), []);
+
+  return { onPlay, onPause, onEnded: onPause, getWatchedSeconds };
+}
@@ -14,44 +14,253 @@ export type Database = {
   }
   public: {
     Tables: {
+      admin_roles: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          role: Database["public"]["Enums"]["admin_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          role: Database["public"]["Enums"]["admin_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          role?: Database["public"]["Enums"]["admin_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      comment_likes: {
+        Row: {
+          comment_id: string
+          created_at: string
+          id: string
+          user_identifier: string
+        }
+        Insert: {
+          comment_id: string
+          created_at?: string
+          id?: string
+          user_identifier: string
+        }
+        Update: {
+          comment_id?: string
+          created_at?: string
+          id?: string
+          user_identifier?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comment_likes_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      comments: {
+        Row: {
+          author_email: string | null
+          author_name: string
+          content: string
+          created_at: string
+          episode_id: string | null
+          id: string
+          likes_count: number
+          parent_id: string | null
+          series_id: string
+          updated_at: string
+        }
+        Insert: {
+          author_email?: string | null
+          author_name: string
+          content: string
+          created_at?: string
+          episode_id?: string | null
+          id?: string
+          likes_count?: number
+          parent_id?: string | null
+          series_id: string
+          updated_at?: string
+        }
+        Update: {
+          author_email?: string | null
+          author_name?: string
+          content?: string
+          created_at?: string
+          episode_id?: string | null
+          id?: string
+          likes_count?: number
+          parent_id?: string | null
+          series_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comments_episode_id_fkey"
+            columns: ["episode_id"]
+            isOneToOne: false
+            referencedRelation: "episodes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      episode_playback_stats: {
+        Row: {
+          bucket_start: string
+          completions: number
+          episode_id: string
+          play_starts: number
+          series_id: string
+          watch_seconds: number
+        }
+        Insert: {
+          bucket_start: string
+          completions?: number
+          episode_id: string
+          play_starts?: number
+          series_id: string
+          watch_seconds?: number
+        }
+        Update: {
+          bucket_start?: string
+          completions?: number
+          episode_id?: string
+          play_starts?: number
+          series_id?: string
+          watch_seconds?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "episode_playback_stats_episode_id_fkey"
+            columns: ["episode_id"]
+            isOneToOne: false
+            referencedRelation: "episodes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "episode_playback_stats_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      episode_sources: {
+        Row: {
+          created_at: string
+          episode_id: string
+          id: string
+          label: string | null
+          language: string | null
+          priority: number
+          provider: string
+          updated_at: string
+          video_id: string
+        }
+        Insert: {
+          created_at?: string
+          episode_id: string
+          id?: string
+          label?: string | null
+          language?: string | null
+          priority?: number
+          provider: string
+          updated_at?: string
+          video_id: string
+        }
+        Update: {
+          created_at?: string
+          episode_id?: string
+          id?: string
+          label?: string | null
+          language?: string | null
+          priority?: number
+          provider?: string
+          updated_at?: string
+          video_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "episode_sources_episode_id_fkey"
+            columns: ["episode_id"]
+            isOneToOne: false
+            referencedRelation: "episodes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       episodes: {
         Row: {
           created_at: string
-          dailymotion_video_id: string
+          dailymotion_video_id: string | null
           description: string | null
+          duration_seconds: number | null
           episode_number: number | null
           id: string
+          provider_channel: string | null
           published_at: string | null
           season_number: number | null
           series_id: string
+          thumbnail_url: string | null
           title: string
           updated_at: string
+          uploaded_at: string | null
           youtube_video_id: string | null
         }
         Insert: {
           created_at?: string
-          dailymotion_video_id: string
+          dailymotion_video_id?: string | null
           description?: string | null
+          duration_seconds?: number | null
           episode_number?: number | null
           id?: string
+          provider_channel?: string | null
           published_at?: string | null
           season_number?: number | null
           series_id: string
+          thumbnail_url?: string | null
           title: string
           updated_at?: string
+          uploaded_at?: string | null
           youtube_video_id?: string | null
         }
         Update: {
           created_at?: string
-          dailymotion_video_id?: string
+          dailymotion_video_id?: string | null
           description?: string | null
+          duration_seconds?: number | null
           episode_number?: number | null
           id?: string
+          provider_channel?: string | null
           published_at?: string | null
           season_number?: number | null
           series_id?: string
+          thumbnail_url?: string | null
           title?: string
           updated_at?: string
+          uploaded_at?: string | null
           youtube_video_id?: string | null
         }
         Relationships: [
@@ -64,181 +273,872 @@ export type Database = {
           },
         ]
       }
+      import_job_items: {
+        Row: {
+          attempts: number
+          description: string | null
+          duration_seconds: number | null
+          episode_id: string | null
+          episode_number: number | null
+          error: string | null
+          id: string
+          job_id: string
+          position: number
+          provider_channel: string | null
+          published_at: string | null
+          season_number: number | null
+          status: string
+          thumbnail_url: string | null
+          title: string
+          updated_at: string
+          uploaded_at: string | null
+          video_id: string
+        }
+        Insert: {
+          attempts?: number
+          description?: string | null
+          duration_seconds?: number | null
+          episode_id?: string | null
+          episode_number?: number | null
+          error?: string | null
+          id?: string
+          job_id: string
+          position: number
+          provider_channel?: string | null
+          published_at?: string | null
+          season_number?: number | null
+          status?: string
+          thumbnail_url?: string | null
+          title: string
+          updated_at?: string
+          uploaded_at?: string | null
+          video_id: string
+        }
+        Update: {
+          attempts?: number
+          description?: string | null
+          duration_seconds?: number | null
+          episode_id?: string | null
+          episode_number?: number | null
+          error?: string | null
+          id?: string
+          job_id?: string
+          position?: number
+          provider_channel?: string | null
+          published_at?: string | null
+          season_number?: number | null
+          status?: string
+          thumbnail_url?: string | null
+          title?: string
+          updated_at?: string
+          uploaded_at?: string | null
+          video_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_job_items_episode_id_fkey"
+            columns: ["episode_id"]
+            isOneToOne: false
+            referencedRelation: "episodes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "import_job_items_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "import_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_jobs: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          failed_count: number
+          finished_at: string | null
+          id: string
+          provider: string
+          series_id: string
+          status: string
+          succeeded_count: number
+          total_count: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          failed_count?: number
+          finished_at?: string | null
+          id?: string
+          provider: string
+          series_id: string
+          status?: string
+          succeeded_count?: number
+          total_count?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          failed_count?: number
+          finished_at?: string | null
+          id?: string
+          provider?: string
+          series_id?: string
+          status?: string
+          succeeded_count?: number
+          total_count?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_jobs_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      playback_positions: {
+        Row: {
+          duration_seconds: number
+          episode_id: string
+          position_seconds: number
+          series_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          duration_seconds: number
+          episode_id: string
+          position_seconds: number
+          series_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          duration_seconds?: number
+          episode_id?: string
+          position_seconds?: number
+          series_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "playback_positions_episode_id_fkey"
+            columns: ["episode_id"]
+            isOneToOne: false
+            referencedRelation: "episodes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "playback_positions_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      playlist_sync_runs: {
+        Row: {
+          episodes_added: number
+          error: string | null
+          finished_at: string | null
+          id: string
+          results: Json
+          series_checked: number
+          started_at: string
+          status: string
+          trigger: string
+          triggered_by: string | null
+        }
+        Insert: {
+          episodes_added?: number
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          results?: Json
+          series_checked?: number
+          started_at?: string
+          status?: string
+          trigger: string
+          triggered_by?: string | null
+        }
+        Update: {
+          episodes_added?: number
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          results?: Json
+          series_checked?: number
+          started_at?: string
+          status?: string
+          trigger?: string
+          triggered_by?: string | null
+        }
+        Relationships: []
+      }
+      rating_settings: {
+        Row: {
+          id: boolean
+          min_votes: number
+          prior_mean: number
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          min_votes?: number
+          prior_mean?: number
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          min_votes?: number
+          prior_mean?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       series: {
         Row: {
+          auto_sync: boolean
           category: Database["public"]["Enums"]["series_category"] | null
           cover_image_url: string | null
           created_at: string
           dailymotion_playlist_id: string | null
           description: string | null
+          episode_title_pattern: string | null
           fts: unknown | null
           id: string
           is_published: boolean
           rating_count: number
           rating_sum: number
           slug: string | null
+          status: Database["public"]["Enums"]["series_status"]
           title: string
           updated_at: string
           views_count: number
+          weighted_rating: number
           youtube_playlist_id: string | null
         }
         Insert: {
+          auto_sync?: boolean
           category?: Database["public"]["Enums"]["series_category"] | null
           cover_image_url?: string | null
           created_at?: string
           dailymotion_playlist_id?: string | null
           description?: string | null
+          episode_title_pattern?: string | null
           fts?: unknown | null
           id?: string
           is_published?: boolean
           rating_count?: number
           rating_sum?: number
           slug?: string | null
+          status?: Database["public"]["Enums"]["series_status"]
           title: string
           updated_at?: string
           views_count?: number
+          weighted_rating?: number
           youtube_playlist_id?: string | null
         }
         Update: {
+          auto_sync?: boolean
           category?: Database["public"]["Enums"]["series_category"] | null
           cover_image_url?: string | null
           created_at?: string
           dailymotion_playlist_id?: string | null
           description?: string | null
+          episode_title_pattern?: string | null
           fts?: unknown | null
           id?: string
           is_published?: boolean
           rating_count?: number
           rating_sum?: number
           slug?: string | null
+          status?: Database["public"]["Enums"]["series_status"]
           title?: string
           updated_at?: string
           views_count?: number
+          weighted_rating?: number
           youtube_playlist_id?: string | null
         }
         Relationships: []
       }
+      series_ratings: {
+        Row: {
+          created_at: string
+          id: string
+          rating: number
+          series_id: string
+          updated_at: string
+          user_id: string | null
+          viewer_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          rating: number
+          series_id: string
+          updated_at?: string
+          user_id?: string | null
+          viewer_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          rating?: number
+          series_id?: string
+          updated_at?: string
+          user_id?: string | null
+          viewer_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "series_ratings_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      series_slug_redirects: {
+        Row: {
+          created_at: string
+          series_id: string
+          slug: string
+        }
+        Insert: {
+          created_at?: string
+          series_id: string
+          slug: string
+        }
+        Update: {
+          created_at?: string
+          series_id?: string
+          slug?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "series_slug_redirects_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      series_trending: {
+        Row: {
+          comments_24h: number
+          comments_30d: number
+          comments_7d: number
+          computed_at: string
+          ratings_24h: number
+          ratings_30d: number
+          ratings_7d: number
+          score: number
+          series_id: string
+          views_24h: number
+          views_30d: number
+          views_7d: number
+        }
+        Insert: {
+          comments_24h?: number
+          comments_30d?: number
+          comments_7d?: number
+          computed_at?: string
+          ratings_24h?: number
+          ratings_30d?: number
+          ratings_7d?: number
+          score?: number
+          series_id: string
+          views_24h?: number
+          views_30d?: number
+          views_7d?: number
+        }
+        Update: {
+          comments_24h?: number
+          comments_30d?: number
+          comments_7d?: number
+          computed_at?: string
+          ratings_24h?: number
+          ratings_30d?: number
+          ratings_7d?: number
+          score?: number
+          series_id?: string
+          views_24h?: number
+          views_30d?: number
+          views_7d?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "series_trending_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: true
+            referencedRelation: "series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      view_events: {
+        Row: {
+          created_at: string
+          episode_id: string | null
+          id: string
+          series_id: string
+          viewer_id: string
+          watched_seconds: number
+        }
+        Insert: {
+          created_at?: string
+          episode_id?: string | null
+          id?: string
+          series_id: string
+          viewer_id: string
+          watched_seconds: number
+        }
+        Update: {
+          created_at?: string
+          episode_id?: string | null
+          id?: string
+          series_id?: string
+          viewer_id?: string
+          watched_seconds?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "view_events_episode_id_fkey"
+            columns: ["episode_id"]
+            isOneToOne: false
+            referencedRelation: "episodes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "view_events_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      view_sessions: {
+        Row: {
+          counted_at: string | null
+          episode_id: string | null
+          id: string
+          series_id: string
+          started_at: string
+          viewer_id: string
+        }
+        Insert: {
+          counted_at?: string | null
+          episode_id?: string | null
+          id?: string
+          series_id: string
+          started_at?: string
+          viewer_id: string
+        }
+        Update: {
+          counted_at?: string | null
+          episode_id?: string | null
+          id?: string
+          series_id?: string
+          started_at?: string
+          viewer_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "view_sessions_episode_id_fkey"
+            columns: ["episode_id"]
+            isOneToOne: false
+            referencedRelation: "episodes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "view_sessions_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      admin_analytics: {
+        Args: {
+          p_from: string
+          p_to: string
+          p_series_id?: string
+          p_episode_id?: string
+        }
+        Returns: Json
+      }
       admin_create_episode: {
-        Args:
-          | {
-              admin_code: string
-              series_id: string
-              title: string
-              dailymotion_video_id: string
-              description?: string
-              season_number?: number
-              episode_number?: number
-              published_at?: string
-            }
-          | {
-              admin_code: string
-              series_id: string
-              title: string
-              dailymotion_video_id: string
-              description?: string
-              season_number?: number
-              episode_number?: number
-              published_at?: string
-              youtube_video_id?: string
-            }
+        Args: {
+          series_id: string
+          title: string
+          dailymotion_video_id: string
+          description?: string
+          season_number?: number
+          episode_number?: number
+          published_at?: string
+          youtube_video_id?: string
+          thumbnail_url?: string
+          duration_seconds?: number
+          uploaded_at?: string
+          provider_channel?: string
+        }
         Returns: {
           created_at: string
-          dailymotion_video_id: string
+          dailymotion_video_id: string | null
           description: string | null
+          duration_seconds: number | null
           episode_number: number | null
           id: string
+          provider_channel: string | null
           published_at: string | null
           season_number: number | null
           series_id: string
+          thumbnail_url: string | null
           title: string
           updated_at: string
+          uploaded_at: string | null
           youtube_video_id: string | null
         }
       }
+      admin_create_import_job: {
+        Args: { p_series_id: string; p_provider: string; p_items: Json }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          failed_count: number
+          finished_at: string | null
+          id: string
+          provider: string
+          series_id: string
+          status: string
+          succeeded_count: number
+          total_count: number
+          updated_at: string
+        }
+      }
       admin_create_series: {
-        Args:
-          | {
-              admin_code: string
-              title: string
-              description?: string
-              cover_image_url?: string
-              dailymotion_playlist_id?: string
-              slug?: string
-              is_published?: boolean
-            }
-          | {
-              admin_code: string
-              title: string
-              description?: string
-              cover_image_url?: string
-              dailymotion_playlist_id?: string
-              slug?: string
-              is_published?: boolean
-              category?: Database["public"]["Enums"]["series_category"]
-            }
-          | {
-              admin_code: string
-              title: string
-              description?: string
-              cover_image_url?: string
-              dailymotion_playlist_id?: string
-              slug?: string
-              is_published?: boolean
-              category?: Database["public"]["Enums"]["series_category"]
-              youtube_playlist_id?: string
-            }
-          | {
-              admin_code: string
-              title: string
-              description?: string
-              cover_image_url?: string
-              dailymotion_playlist_id?: string
-              slug?: string
-              is_published?: boolean
-              youtube_playlist_id?: string
-            }
+        Args: {
+          title: string
+          description?: string
+          cover_image_url?: string
+          dailymotion_playlist_id?: string
+          slug?: string
+          is_published?: boolean
+          category?: Database["public"]["Enums"]["series_category"]
+          youtube_playlist_id?: string
+        }
         Returns: {
+          auto_sync: boolean
           category: Database["public"]["Enums"]["series_category"] | null
           cover_image_url: string | null
           created_at: string
           dailymotion_playlist_id: string | null
           description: string | null
+          episode_title_pattern: string | null
           fts: unknown | null
           id: string
           is_published: boolean
           rating_count: number
           rating_sum: number
           slug: string | null
+          status: Database["public"]["Enums"]["series_status"]
           title: string
           updated_at: string
           views_count: number
+          weighted_rating: number
           youtube_playlist_id: string | null
         }
       }
       admin_delete_episode: {
-        Args: { admin_code: string; p_episode_id: string }
+        Args: { p_episode_id: string }
         Returns: undefined
       }
-      admin_delete_series: {
-        Args: { admin_code: string; p_series_id: string }
+      admin_delete_episode_source: {
+        Args: { p_source_id: string }
         Returns: undefined
       }
-      increment_series_view: {
+      admin_delete_series: {
         Args: { p_series_id: string }
+        Returns: undefined
+      }
+      admin_grant_role: {
+        Args: {
+          p_email: string
+          p_role: Database["public"]["Enums"]["admin_role"]
+        }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          role: Database["public"]["Enums"]["admin_role"]
+          user_id: string
+        }
+      }
+      admin_list_roles: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          user_id: string
+          email: string
+          role: Database["public"]["Enums"]["admin_role"]
+          created_at: string
+        }[]
+      }
+      admin_reorder_episodes: {
+        Args: { p_series_id: string; p_order: Json }
+        Returns: number
+      }
+      admin_retry_import_job: {
+        Args: { p_job_id: string }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          failed_count: number
+          finished_at: string | null
+          id: string
+          provider: string
+          series_id: string
+          status: string
+          succeeded_count: number
+          total_count: number
+          updated_at: string
+        }
+      }
+      admin_revoke_role: {
+        Args: { p_user_id: string }
+        Returns: undefined
+      }
+      admin_run_import_batch: {
+        Args: { p_job_id: string; p_batch_size?: number }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          failed_count: number
+          finished_at: string | null
+          id: string
+          provider: string
+          series_id: string
+          status: string
+          succeeded_count: number
+          total_count: number
+          updated_at: string
+        }
+      }
+      admin_save_episode_source: {
+        Args: {
+          p_episode_id: string
+          p_provider: string
+          p_video_id: string
+          p_priority?: number
+          p_language?: string
+          p_label?: string
+          p_source_id?: string
+        }
+        Returns: {
+          created_at: string
+          episode_id: string
+          id: string
+          label: string | null
+          language: string | null
+          priority: number
+          provider: string
+          updated_at: string
+          video_id: string
+        }
+      }
+      admin_sync_playlist: {
+        Args: {
+          p_series_id: string
+          p_provider: string
+          p_add?: Json
+          p_rename?: Json
+          p_remove?: string[]
+        }
+        Returns: Json
+      }
+      admin_update_episode: {
+        Args: { p_episode_id: string; p_changes: Json }
+        Returns: {
+          created_at: string
+          dailymotion_video_id: string | null
+          description: string | null
+          duration_seconds: number | null
+          episode_number: number | null
+          id: string
+          provider_channel: string | null
+          published_at: string | null
+          season_number: number | null
+          series_id: string
+          thumbnail_url: string | null
+          title: string
+          updated_at: string
+          uploaded_at: string | null
+          youtube_video_id: string | null
+        }
+      }
+      admin_update_rating_settings: {
+        Args: { p_prior_mean: number; p_min_votes: number }
+        Returns: {
+          id: boolean
+          min_votes: number
+          prior_mean: number
+          updated_at: string
+        }
+      }
+      admin_update_series: {
+        Args: { p_series_id: string; p_changes: Json }
+        Returns: {
+          auto_sync: boolean
+          category: Database["public"]["Enums"]["series_category"] | null
+          cover_image_url: string | null
+          created_at: string
+          dailymotion_playlist_id: string | null
+          description: string | null
+          episode_title_pattern: string | null
+          fts: unknown | null
+          id: string
+          is_published: boolean
+          rating_count: number
+          rating_sum: number
+          slug: string | null
+          status: Database["public"]["Enums"]["series_status"]
+          title: string
+          updated_at: string
+          views_count: number
+          weighted_rating: number
+          youtube_playlist_id: string | null
+        }
+      }
+      admin_update_series_status: {
+        Args: {
+          p_series_id: string
+          p_status: Database["public"]["Enums"]["series_status"]
+        }
+        Returns: undefined
+      }
+      create_comment: {
+        Args: {
+          p_content: string
+          p_author_name: string
+          p_author_email: string
+          p_series_id: string
+          p_episode_id?: string
+          p_parent_id?: string
+        }
+        Returns: {
+          author_email: string | null
+          author_name: string
+          content: string
+          created_at: string
+          episode_id: string | null
+          id: string
+          likes_count: number
+          parent_id: string | null
+          series_id: string
+          updated_at: string
+        }
+      }
+      get_comments_with_stats: {
+        Args: {
+          p_series_id: string
+          p_episode_id?: string
+          p_limit?: number
+          p_offset?: number
+        }
+        Returns: {
+          id: string
+          content: string
+          author_name: string
+          author_email: string
+          series_id: string
+          episode_id: string
+          parent_id: string
+          likes_count: number
+          reply_count: number
+          created_at: string
+          updated_at: string
+        }[]
+      }
+      get_viewer_rating: {
+        Args: { p_series_id: string; p_viewer_id: string }
         Returns: number
       }
+      has_admin_role: {
+        Args: { p_roles?: Database["public"]["Enums"]["admin_role"][] }
+        Returns: boolean
+      }
       rate_series: {
-        Args: { p_series_id: string; p_rating: number }
+        Args: { p_series_id: string; p_rating: number; p_viewer_id: string }
+        Returns: Json
+      }
+      record_playback: {
+        Args: {
+          p_episode_id: string
+          p_event: string
+          p_watched_seconds?: number
+        }
+        Returns: undefined
+      }
+      record_view: {
+        Args: { p_session_id: string }
+        Returns: Json
+      }
+      refresh_series_trending: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      require_admin_role: {
+        Args: { p_roles?: Database["public"]["Enums"]["admin_role"][] }
+        Returns: undefined
+      }
+      save_playback_position: {
+        Args: {
+          p_duration_seconds: number
+          p_episode_id: string
+          p_position_seconds: number
+        }
+        Returns: undefined
+      }
+      slugify: {
+        Args: { p_text: string }
+        Returns: string
+      }
+      start_view: {
+        Args: { p_episode_id: string; p_series_id: string; p_viewer_id: string }
+        Returns: string
+      }
+      toggle_comment_like: {
+        Args: { p_comment_id: string; p_user_identifier: string }
+        Returns: Json
+      }
+      unique_series_slug: {
+        Args: { p_base: string; p_series_id: string }
+        Returns: string
+      }
+      weighted_rating: {
+        Args: { p_rating_sum: number; p_rating_count: number }
         Returns: number
       }
     }
     Enums: {
+      admin_role: "owner" | "editor" | "moderator"
       series_category: "donghua" | "anime" | "movie" | "cartoon"
+      series_status: "ongoing" | "completed"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -366,7 +1266,9 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      admin_role: ["owner", "editor", "moderator"],
       series_category: ["donghua", "anime", "movie", "cartoon"],
+      series_status: ["ongoing", "completed"],
     },
   },
 } as const
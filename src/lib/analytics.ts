@@ -0,0 +1,45 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+type SeriesCategory = Database["public"]["Enums"]["series_category"];
+
+// Shape of the JSON returned by admin_analytics
+export interface AnalyticsData {
+  views_by_day: { day: string; views: number }[];
+  comments_by_day: { day: string; comments: number }[];
+  top_series: { series_id: string; title: string; category: SeriesCategory | null; views: number }[];
+  rating_distribution: { rating: number; series: number }[];
+  completion: {
+    episode_id: string;
+    episode_title: string;
+    season_number: number | null;
+    episode_number: number | null;
+    series_id: string;
+    series_title: string;
+    play_starts: number;
+    completions: number;
+    watch_seconds: number;
+  }[];
+}
+
+export interface AnalyticsFilters {
+  /** Inclusive range of UTC days, as yyyy-MM-dd. */
+  from: string;
+  to: string;
+  seriesId?: string;
+  episodeId?: string;
+}
+
+export const fetchAnalytics = async ({ from, to, seriesId, episodeId }: AnalyticsFilters) => {
+  const { data, error } = await supabase.rpc("admin_analytics", {
+    p_from: from,
+    p_to: to,
+    p_series_id: seriesId || undefined,
+    p_episode_id: episodeId || undefined,
+  });
+  if (error) throw error;
+  return data as unknown as AnalyticsData;
+};
+
+export const completionRate = (row: { play_starts: number; completions: number }) =>
+  row.play_starts > 0 ? row.completions / row.play_starts : 0;
@@ -0,0 +1,22 @@
+export type CsvColumn<T> = {
+  header: string;
+  value: (row: T) => string | number | null | undefined;
+};
+
+const escapeCell = (value: string | number | null | undefined) => {
+  const text = value == null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = <T>(rows: T[], columns: CsvColumn<T>[]) =>
+  [columns.map((c) => escapeCell(c.header)).join(","), ...rows.map((row) => columns.map((c) => escapeCell(c.value(row))).join(","))].join("\r\n");
+
+export const downloadCsv = (filename: string, csv: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers only start the download after the click has been handled, so keep the URL alive a little longer
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
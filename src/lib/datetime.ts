@@ -0,0 +1,16 @@
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// ISO timestamp -> value for <input type="datetime-local"> in the browser's timezone
+export const toDateTimeLocal = (iso: string | null | undefined) => {
+  if (!iso) return "";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+// <input type="datetime-local"> value -> ISO timestamp (or null when empty)
+export const fromDateTimeLocal = (value: string) => {
+  if (!value) return null;
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? null : d.toISOString();
+};
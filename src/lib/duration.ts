@@ -0,0 +1,19 @@
+/** Formats seconds as m:ss, or h:mm:ss for an hour or more. */
+export const formatDuration = (seconds: number) => {
+  const total = Math.max(0, Math.round(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const ss = s.toString().padStart(2, "0");
+  return h > 0 ? `${h}:${m.toString().padStart(2, "0")}:${ss}` : `${m}:${ss}`;
+};
+
+/**
+ * Parses "23:40", "1:02:03" or a plain number of seconds. Returns null for
+ * empty or malformed input.
+ */
+export const parseDuration = (value: string) => {
+  const clean = value.trim();
+  if (!clean || !/^\d+(:\d{1,2}){0,2}$/.test(clean)) return null;
+  return clean.split(":").reduce((acc, part) => acc * 60 + Number(part), 0);
+};
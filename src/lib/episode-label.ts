@@ -0,0 +1,7 @@
+import type { EpisodeNumbering } from "@/lib/episode-numbering";
+
+/** "S2 · E5", or "Episode 5" without a season; null when the episode has no number. */
+export const episodeLabel = (ep: EpisodeNumbering) => {
+  if (ep.episode_number == null) return null;
+  return ep.season_number != null ? `S${ep.season_number} · E${ep.episode_number}` : `Episode ${ep.episode_number}`;
+};
@@ -0,0 +1,26 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type ImportJob = Database["public"]["Tables"]["import_jobs"]["Row"];
+
+const BATCH_SIZE = 25;
+
+/**
+ * Drives a job by calling admin_run_import_batch until nothing is pending,
+ * reporting the job after every batch so callers can render progress.
+ * Throws when a batch call fails; the job then stays `running` with its
+ * unprocessed items pending, and admin_retry_import_job resumes it.
+ */
+export const runImportJob = async (job: ImportJob, onProgress: (job: ImportJob) => void) => {
+  let current = job;
+  while (current.status === "running") {
+    const { data, error } = await supabase.rpc("admin_run_import_batch", {
+      p_job_id: current.id,
+      p_batch_size: BATCH_SIZE,
+    });
+    if (error) throw error;
+    current = data;
+    onProgress(current);
+  }
+  return current;
+};
@@ -0,0 +1,24 @@
+const pending = new Map<string, Promise<void>>();
+
+/**
+ * Adds a script tag once per URL and resolves when it has loaded. A failed
+ * load is forgotten so the next call can retry.
+ */
+export const loadScript = (src: string) => {
+  const existing = pending.get(src);
+  if (existing) return existing;
+  const promise = new Promise<void>((resolve, reject) => {
+    const script = document.createElement("script");
+    script.src = src;
+    script.async = true;
+    script.onload = () => resolve();
+    script.onerror = () => {
+      pending.delete(src);
+      script.remove();
+      reject(new Error(`Failed to load ${src}`));
+    };
+    document.head.appendChild(script);
+  });
+  pending.set(src, promise);
+  return promise;
+};
@@ -0,0 +1,80 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface PlaybackPosition {
+  seriesId: string;
+  position: number;
+  duration: number;
+  updatedAt: string;
+}
+
+export type PlaybackPositions = Record<string, PlaybackPosition>;
+
+const STORAGE_KEY = "playback_positions";
+// Oldest entries are dropped past this so localStorage does not grow forever
+const MAX_STORED = 500;
+
+// Positions this close to either end are not worth resuming from
+export const RESUME_MIN_SECONDS = 10;
+export const COMPLETE_FRACTION = 0.95;
+
+export const canResume = (p: PlaybackPosition | undefined) =>
+  !!p && p.duration > 0 && p.position >= RESUME_MIN_SECONDS && p.position < p.duration * COMPLETE_FRACTION;
+
+export const progressFraction = (p: PlaybackPosition | undefined) =>
+  p && p.duration > 0 ? Math.min(p.position / p.duration, 1) : 0;
+
+const readStored = (): PlaybackPositions => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+  } catch {
+    return {};
+  }
+};
+
+const writeStored = (positions: PlaybackPositions) => {
+  const entries = Object.entries(positions);
+  const kept =
+    entries.length > MAX_STORED
+      ? entries.sort(([, a], [, b]) => b.updatedAt.localeCompare(a.updatedAt)).slice(0, MAX_STORED)
+      : entries;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(kept)));
+};
+
+const signedInUserId = async () => {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user.id;
+};
+
+/**
+ * Positions for every episode of a series, keyed by episode id: from
+ * `playback_positions` when signed in, otherwise from this browser.
+ */
+export const loadPlaybackPositions = async (seriesId: string): Promise<PlaybackPositions> => {
+  if (!(await signedInUserId())) {
+    return Object.fromEntries(Object.entries(readStored()).filter(([, p]) => p.seriesId === seriesId));
+  }
+  const { data, error } = await supabase
+    .from("playback_positions")
+    .select("episode_id,series_id,position_seconds,duration_seconds,updated_at")
+    .eq("series_id", seriesId);
+  if (error) throw error;
+  return Object.fromEntries(
+    (data ?? []).map((row) => [
+      row.episode_id,
+      { seriesId: row.series_id, position: row.position_seconds, duration: row.duration_seconds, updatedAt: row.updated_at },
+    ])
+  );
+};
+
+export const savePlaybackPosition = async (episodeId: string, position: PlaybackPosition) => {
+  if (!(await signedInUserId())) {
+    writeStored({ ...readStored(), [episodeId]: position });
+    return;
+  }
+  const { error } = await supabase.rpc("save_playback_position", {
+    p_episode_id: episodeId,
+    p_position_seconds: Math.floor(position.position),
+    p_duration_seconds: Math.round(position.duration),
+  });
+  if (error) throw error;
+};
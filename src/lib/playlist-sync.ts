@@ -0,0 +1,61 @@
+import type { PlaylistVideo, VideoProvider } from "@/lib/playlists";
+
+export interface SyncEpisode {
+  id: string;
+  title: string;
+  dailymotion_video_id: string | null;
+  youtube_video_id: string | null;
+}
+
+export interface PlaylistDiff {
+  added: PlaylistVideo[];
+  // No longer in the playlist and without another video: deleted when applied
+  removed: SyncEpisode[];
+  // No longer in the playlist but still holding the other provider's video: only this video is dropped
+  unlinked: SyncEpisode[];
+  renamed: { episode: SyncEpisode; video: PlaylistVideo }[];
+  unchanged: number;
+}
+
+const providerVideoId = (episode: SyncEpisode, provider: VideoProvider) =>
+  provider === "dailymotion" ? episode.dailymotion_video_id : episode.youtube_video_id;
+
+const otherProvider = (provider: VideoProvider): VideoProvider => (provider === "dailymotion" ? "youtube" : "dailymotion");
+
+/**
+ * Compares a fetched playlist with the episodes already stored for a series,
+ * matching on the provider video ID. Episodes without a video from this
+ * provider are ignored, so syncing one provider never touches the other.
+ * Episodes that left the playlist but still have the other provider's video
+ * are listed as `unlinked` rather than `removed`, so they are kept.
+ */
+export const diffPlaylist = (videos: PlaylistVideo[], episodes: SyncEpisode[], provider: VideoProvider): PlaylistDiff => {
+  const byVideoId = new Map<string, SyncEpisode>();
+  episodes.forEach((ep) => {
+    const videoId = providerVideoId(ep, provider);
+    if (videoId) byVideoId.set(videoId, ep);
+  });
+
+  const diff: PlaylistDiff = { added: [], removed: [], unlinked: [], renamed: [], unchanged: 0 };
+  const seen = new Set<string>();
+  videos.forEach((video) => {
+    if (seen.has(video.id)) return;
+    seen.add(video.id);
+    const episode = byVideoId.get(video.id);
+    if (!episode) {
+      diff.added.push(video);
+    } else if (video.title.trim() && episode.title.trim() !== video.title.trim()) {
+      diff.renamed.push({ episode, video });
+    } else {
+      diff.unchanged += 1;
+    }
+  });
+
+  byVideoId.forEach((episode, videoId) => {
+    if (seen.has(videoId)) return;
+    if (providerVideoId(episode, otherProvider(provider))) diff.unlinked.push(episode);
+    else diff.removed.push(episode);
+  });
+
+  return diff;
+};
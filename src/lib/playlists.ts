@@ -0,0 +1,45 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type VideoProvider = "dailymotion" | "youtube";
+
+// Normalized by the provider-playlist edge function
+export interface PlaylistVideo {
+  id: string;
+  title: string;
+  description?: string | null;
+  thumbnail_url?: string | null;
+  duration?: number | null;
+  published_at?: string | null;
+  channel?: string | null;
+}
+
+export interface PlaylistFetchResult {
+  items: PlaylistVideo[];
+  truncated: boolean;
+}
+
+export const PROVIDER_LABELS: Record<VideoProvider, string> = {
+  dailymotion: "Dailymotion",
+  youtube: "YouTube",
+};
+
+/** Episode columns filled from the playlist metadata during import and sync. */
+export const toEpisodeMetadata = (video: PlaylistVideo) => ({
+  thumbnail_url: video.thumbnail_url ?? null,
+  duration_seconds: video.duration ?? null,
+  uploaded_at: video.published_at ?? null,
+  provider_channel: video.channel ?? null,
+});
+
+/** Fetches every video of a public playlist, given its URL or ID. */
+export const fetchPlaylistVideos = async (provider: VideoProvider, input: string): Promise<PlaylistFetchResult> => {
+  const { data, error } = await supabase.functions.invoke("provider-playlist", {
+    body: { provider, playlist: input },
+  });
+  if (error) {
+    // Non-2xx responses carry { error, code } from the function; surface that instead of the generic message
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(body?.error ?? error.message);
+  }
+  return { items: (data?.items ?? []) as PlaylistVideo[], truncated: !!data?.truncated };
+};
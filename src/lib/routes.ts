@@ -0,0 +1,9 @@
+export interface SeriesRef {
+  id: string;
+  slug: string | null;
+}
+
+/** Series URLs use the slug when there is one; the UUID still resolves. */
+export const seriesPath = (series: SeriesRef) => `/series/${series.slug ?? series.id}`;
+
+export const episodePath = (series: SeriesRef, episodeId: string) => `${seriesPath(series)}/episode/${episodeId}`;
@@ -0,0 +1,14 @@
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Letters and digits in any script, so titles like 斗罗大陆 keep a meaningful slug
+const SLUG_PATTERN = /^[\p{L}\p{N}]+(-[\p{L}\p{N}]+)*$/u;
+
+/** Same rules as `public.slugify` in the database. */
+export const slugify = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+
+export const isValidSlug = (slug: string) => SLUG_PATTERN.test(slug) && slug === slug.toLowerCase();
+
+export const isUuid = (value: string) => UUID_PATTERN.test(value);
@@ -0,0 +1,35 @@
+export const extractDailymotionId = (input: string) => {
+  if (!input) return input;
+  const clean = input.trim().split("?")[0];
+  const short = clean.match(/dai\.ly\/([A-Za-z0-9]+)/i);
+  if (short) return short[1];
+  const full = clean.match(/dailymotion\.com\/video\/([A-Za-z0-9]+)/i);
+  if (full) return full[1];
+  return clean.replace(/^https?:\/\/.+\//, "").split("_")[0];
+};
+
+export const extractYouTubeId = (input: string) => {
+  if (!input) return input;
+  try {
+    const url = new URL(input);
+    if (url.hostname.includes("youtube.com")) {
+      const v = url.searchParams.get("v");
+      if (v) return v;
+      const embed = url.pathname.match(/\/embed\/([A-Za-z0-9_-]{6,})/i);
+      if (embed) return embed[1];
+    }
+    if (url.hostname.includes("youtu.be")) {
+      const short = url.pathname.replace(/^\//, "");
+      if (short) return short;
+    }
+  } catch {
+    // not a URL; assume it's an ID
+  }
+  return input.trim();
+};
+
+// Public thumbnail endpoints, used when an episode has no stored thumbnail
+export const videoThumbnailUrl = (provider: "dailymotion" | "youtube", videoId: string) =>
+  provider === "dailymotion"
+    ? `https://www.dailymotion.com/thumbnail/video/${videoId}`
+    : `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`;
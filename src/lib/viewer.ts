@@ -0,0 +1,11 @@
+const VIEWER_ID_KEY = "viewer_id";
+
+/** Anonymous, per-browser id used to deduplicate views. Not tied to any account. */
+export const getViewerId = () => {
+  let id = localStorage.getItem(VIEWER_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(VIEWER_ID_KEY, id);
+  }
+  return id;
+};
@@ -1,21 +1,39 @@
 import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
-import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-const ADMIN_CODE = "Shivam2008";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import StaffRolesCard from "@/components/admin/StaffRolesCard";
+import SeriesEditorCard from "@/components/admin/SeriesEditorCard";
+import EpisodeManagerCard from "@/components/admin/EpisodeManagerCard";
+import EpisodeOrderCard from "@/components/admin/EpisodeOrderCard";
+import EpisodeSourcesCard from "@/components/admin/EpisodeSourcesCard";
+import SeriesPicker from "@/components/admin/SeriesPicker";
+import EpisodePicker from "@/components/admin/EpisodePicker";
+import PlaylistImportCard from "@/components/admin/PlaylistImportCard";
+import SyncRunsCard from "@/components/admin/SyncRunsCard";
+import AnalyticsPanel from "@/components/admin/AnalyticsPanel";
+import RatingSettingsCard from "@/components/admin/RatingSettingsCard";
+import { CONTENT_ROLES, hasRole, useAdminAuth } from "@/hooks/use-admin-auth";
+import { fromDateTimeLocal } from "@/lib/datetime";
+import { parseDuration } from "@/lib/duration";
+import { extractDailymotionId, extractYouTubeId, videoThumbnailUrl } from "@/lib/video-ids";
+import { isValidSlug, slugify } from "@/lib/slug";
 
 const Admin = () => {
   const { toast } = useToast();
-  const [code, setCode] = useState("");
-  const [authorized, setAuthorized] = useState(false);
+  const queryClient = useQueryClient();
+  const { user, role, signOut } = useAdminAuth();
+  const canEditContent = hasRole(role, CONTENT_ROLES);
 
   // Series form state
   const [title, setTitle] = useState("");
+  const [slug, setSlug] = useState("");
   const [desc, setDesc] = useState("");
   const [cover, setCover] = useState("");
   const [playlist, setPlaylist] = useState(""); // Dailymotion playlist
@@ -25,67 +43,27 @@ const Admin = () => {
   // Episode form state
   const [epSeriesId, setEpSeriesId] = useState("");
   const [epTitle, setEpTitle] = useState("");
+  const [epDesc, setEpDesc] = useState("");
+  const [epSeason, setEpSeason] = useState("");
+  const [epNumber, setEpNumber] = useState("");
+  const [epPublishedAt, setEpPublishedAt] = useState("");
+  const [epThumbnail, setEpThumbnail] = useState("");
+  const [epDuration, setEpDuration] = useState("");
+  const [epUploadedAt, setEpUploadedAt] = useState("");
+  const [epChannel, setEpChannel] = useState("");
   const [videoId, setVideoId] = useState("");
   const [episodeProvider, setEpisodeProvider] = useState<"dailymotion" | "youtube">("dailymotion");
   // Status update form state
   const [statusSeriesId, setStatusSeriesId] = useState("");
   const [statusToSet, setStatusToSet] = useState<"ongoing" | "completed">("ongoing");
 
-  // Playlist import state (Dailymotion)
-  const [plUrl, setPlUrl] = useState("");
-  const [plVideos, setPlVideos] = useState<Array<{ id: string; title: string; description?: string; thumbnail_url?: string }>>([]);
-  const [plSelected, setPlSelected] = useState<Record<string, boolean>>({});
-  const [isFetchingPlaylist, setIsFetchingPlaylist] = useState(false);
-  const [isImportingEpisodes, setIsImportingEpisodes] = useState(false);
-
-  // Playlist import state (YouTube)
-  const [ytPlUrl, setYtPlUrl] = useState("");
-  const [ytPlVideos, setYtPlVideos] = useState<Array<{ id: string; title: string; description?: string; thumbnail_url?: string }>>([]);
-  const [ytSelected, setYtSelected] = useState<Record<string, boolean>>({});
-  const [isFetchingYt, setIsFetchingYt] = useState(false);
-  const [isImportingYt, setIsImportingYt] = useState(false);
-
   // Delete form state
   const [delSeriesId, setDelSeriesId] = useState("");
   const [delEpisodeId, setDelEpisodeId] = useState("");
 
-  const extractDailymotionId = (input: string) => {
-    if (!input) return input;
-    const clean = input.trim().split("?")[0];
-    const short = clean.match(/dai\.ly\/([A-Za-z0-9]+)/i);
-    if (short) return short[1];
-    const full = clean.match(/dailymotion\.com\/video\/([A-Za-z0-9]+)/i);
-    if (full) return full[1];
-    return clean.replace(/^https?:\/\/.+\//, "").split("_")[0];
-  };
-
-  const extractYouTubeId = (input: string) => {
-    if (!input) return input;
-    try {
-      const url = new URL(input);
-      if (url.hostname.includes("youtube.com")) {
-        const v = url.searchParams.get("v");
-        if (v) return v;
-        const embed = url.pathname.match(/\/embed\/([A-Za-z0-9_-]{6,})/i);
-        if (embed) return embed[1];
-      }
-      if (url.hostname.includes("youtu.be")) {
-        const short = url.pathname.replace(/^\//, "");
-        if (short) return short;
-      }
-    } catch {}
-    return input.trim();
-  };
-
-
-  const handleAuthorize = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (code.trim() === ADMIN_CODE) {
-      setAuthorized(true);
-      toast({ title: "Access granted", description: "Welcome to the admin panel" });
-    } else {
-      toast({ title: "Invalid code", description: "Please check the code and try again", variant: "destructive" });
-    }
+  const invalidateEpisodeQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ["admin-episode-options"] });
+    queryClient.invalidateQueries({ queryKey: ["admin-episodes"] });
   };
 
   const handleSaveSeries = async () => {
@@ -97,14 +75,17 @@ const Admin = () => {
       toast({ title: "Category required", description: "Please select a category" });
       return;
     }
+    if (slug.trim() && !isValidSlug(slug.trim())) {
+      toast({ title: "Invalid slug", description: "Use lowercase letters, numbers and single hyphens", variant: "destructive" });
+      return;
+    }
     try {
       const { data, error } = await (supabase as any).rpc("admin_create_series", {
-        admin_code: code,
         title,
         description: desc || null,
         cover_image_url: cover || null,
         dailymotion_playlist_id: playlist || null,
-        slug: null,
+        slug: slug.trim() || null,
         is_published: false,
         category,
         youtube_playlist_id: ytPlaylist || null,
@@ -114,14 +95,15 @@ const Admin = () => {
       const createdId = (data as any)?.id;
       if (createdId && newStatus !== "ongoing") {
         const { error: statusErr } = await (supabase as any).rpc("admin_update_series_status", {
-          admin_code: code,
           p_series_id: createdId,
           p_status: newStatus,
         });
         if (statusErr) throw statusErr;
       }
       toast({ title: "Series saved", description: `Created: ${data?.title}` });
+      queryClient.invalidateQueries({ queryKey: ["admin-series-options"] });
       setTitle("");
+      setSlug("");
       setDesc("");
       setCover("");
       setPlaylist("");
@@ -133,192 +115,64 @@ const Admin = () => {
   };
   const handleSaveEpisode = async () => {
     if (!epSeriesId || !epTitle || !videoId) {
-      toast({ title: "Missing fields", description: "Please fill Series ID, Episode Title and Video ID" });
+      toast({ title: "Missing fields", description: "Please select a series and fill Episode Title and Video ID" });
+      return;
+    }
+    const durationSeconds = parseDuration(epDuration);
+    if (epDuration.trim() && durationSeconds === null) {
+      toast({ title: "Invalid duration", description: "Use minutes:seconds, e.g. 23:40" });
       return;
     }
     try {
       const dmId = episodeProvider === "dailymotion" ? extractDailymotionId(videoId) : null;
       const ytId = episodeProvider === "youtube" ? extractYouTubeId(videoId) : null;
       const { data, error } = await (supabase as any).rpc("admin_create_episode", {
-        admin_code: code,
         series_id: epSeriesId,
         title: epTitle,
         dailymotion_video_id: dmId,
         youtube_video_id: ytId,
-        description: null,
-        season_number: null,
-        episode_number: null,
-        published_at: null,
+        description: epDesc.trim() || null,
+        season_number: epSeason ? Number(epSeason) : null,
+        episode_number: epNumber ? Number(epNumber) : null,
+        published_at: fromDateTimeLocal(epPublishedAt),
+        thumbnail_url: epThumbnail.trim() || videoThumbnailUrl(episodeProvider, dmId ?? ytId),
+        duration_seconds: durationSeconds,
+        uploaded_at: fromDateTimeLocal(epUploadedAt),
+        provider_channel: epChannel.trim() || null,
       });
       if (error) throw error;
       toast({ title: "Episode saved", description: `Created: ${data?.title}` });
+      invalidateEpisodeQueries();
       setEpSeriesId("");
       setEpTitle("");
+      setEpDesc("");
+      setEpSeason("");
+      setEpNumber("");
+      setEpPublishedAt("");
+      setEpThumbnail("");
+      setEpDuration("");
+      setEpUploadedAt("");
+      setEpChannel("");
       setVideoId("");
     } catch (err: any) {
       toast({ title: "Failed to save episode", description: err.message || String(err), variant: "destructive" });
     }
   };
 
-  const extractDailymotionPlaylistId = (input: string) => {
-    if (!input) return input;
-    const clean = input.trim();
-    const match = clean.match(/playlist\/([A-Za-z0-9]+)/i);
-    if (match) return match[1];
-    return clean;
-  };
-
-  const handleFetchPlaylist = async () => {
-    if (!plUrl) {
-      toast({ title: "Playlist URL required", description: "Paste a public Dailymotion playlist link or ID" });
-      return;
-    }
-    setIsFetchingPlaylist(true);
-    try {
-      const pid = extractDailymotionPlaylistId(plUrl);
-      let page = 1;
-      const limit = 100;
-      let all: any[] = [];
-      for (let i = 0; i < 10; i++) {
-        const res = await fetch(`https://api.dailymotion.com/playlist/${pid}/videos?fields=id,title,description,thumbnail_url&page=${page}&limit=${limit}`);
-        if (!res.ok) throw new Error(`Dailymotion API error: ${res.status}`);
-        const data = await res.json();
-        const list = (data.list ?? data.result ?? data.videos ?? []) as any[];
-        all = all.concat(list);
-        if (!data.has_more) break;
-        page += 1;
-      }
-      setPlVideos(all.map((v: any) => ({ id: v.id, title: v.title, description: v.description, thumbnail_url: v.thumbnail_url })));
-      setPlSelected({});
-      toast({ title: "Playlist fetched", description: `Found ${all.length} videos` });
-    } catch (err: any) {
-      console.error(err);
-      toast({ title: "Failed to fetch playlist", description: err.message || String(err), variant: "destructive" });
-    } finally {
-      setIsFetchingPlaylist(false);
-    }
-  };
-
-  const handleImportSelected = async () => {
-    if (!epSeriesId) {
-      toast({ title: "Series ID required", description: "Enter the Series ID to import into", variant: "destructive" });
-      return;
-    }
-    const selectedIds = plVideos.filter(v => plSelected[v.id]).map(v => v.id);
-    if (selectedIds.length === 0) {
-      toast({ title: "No videos selected", description: "Select at least one video to import" });
-      return;
-    }
-    setIsImportingEpisodes(true);
-    try {
-      const results = await Promise.allSettled(
-        selectedIds.map((vidId, idx) =>
-          supabase.rpc("admin_create_episode", {
-            admin_code: code,
-            series_id: epSeriesId,
-            title: plVideos.find(v => v.id === vidId)?.title || `Episode ${idx + 1}`,
-            dailymotion_video_id: vidId,
-            description: null,
-            season_number: null,
-            episode_number: null,
-            published_at: null,
-          })
-        )
-      );
-      const success = results.filter((r) => r.status === "fulfilled").length;
-      const failures = results.length - success;
-      toast({ title: "Import complete", description: `${success} added, ${failures} failed` });
-    } catch (err: any) {
-      toast({ title: "Import failed", description: err.message || String(err), variant: "destructive" });
-    } finally {
-      setIsImportingEpisodes(false);
-    }
-  };
-
-  // YouTube helpers
-  const extractYouTubePlaylistId = (input: string) => {
-    if (!input) return input;
-    try {
-      const url = new URL(input);
-      const list = url.searchParams.get("list");
-      if (list) return list;
-    } catch {}
-    return input.trim();
-  };
-
-  const handleFetchYouTubePlaylist = async () => {
-    if (!ytPlUrl) {
-      toast({ title: "Playlist URL required", description: "Paste a public YouTube playlist link or ID" });
-      return;
-    }
-    setIsFetchingYt(true);
-    try {
-      const { data, error } = await (supabase as any).functions.invoke("youtube-playlist", {
-        body: { playlist: ytPlUrl },
-      });
-      if (error) throw error;
-      const items = (data?.items || []) as Array<{ id: string; title: string; description?: string; thumbnail_url?: string }>;
-      setYtPlVideos(items);
-      setYtSelected({});
-      toast({ title: "Playlist fetched", description: `Found ${items.length} videos` });
-    } catch (err: any) {
-      console.error(err);
-      toast({ title: "Failed to fetch playlist", description: err.message || String(err), variant: "destructive" });
-    } finally {
-      setIsFetchingYt(false);
-    }
-  };
-
-  const handleImportSelectedYt = async () => {
-    if (!epSeriesId) {
-      toast({ title: "Series ID required", description: "Enter the Series ID to import into", variant: "destructive" });
-      return;
-    }
-    const selectedIds = ytPlVideos.filter(v => ytSelected[v.id]).map(v => v.id);
-    if (selectedIds.length === 0) {
-      toast({ title: "No videos selected", description: "Select at least one video to import" });
-      return;
-    }
-    setIsImportingYt(true);
-    try {
-      const results = await Promise.allSettled(
-        selectedIds.map((vidId, idx) =>
-          (supabase as any).rpc("admin_create_episode", {
-            admin_code: code,
-            series_id: epSeriesId,
-            title: ytPlVideos.find(v => v.id === vidId)?.title || `Episode ${idx + 1}`,
-            dailymotion_video_id: null,
-            youtube_video_id: vidId,
-            description: null,
-            season_number: null,
-            episode_number: null,
-            published_at: null,
-          })
-        )
-      );
-      const success = results.filter((r) => r.status === "fulfilled").length;
-      const failures = results.length - success;
-      toast({ title: "Import complete", description: `${success} added, ${failures} failed` });
-    } catch (err: any) {
-      toast({ title: "Import failed", description: err.message || String(err), variant: "destructive" });
-    } finally {
-      setIsImportingYt(false);
-    }
-  };
-
   const handleDeleteSeries = async () => {
     if (!delSeriesId) {
-      toast({ title: "Series ID required", description: "Enter the Series UUID to delete" });
+      toast({ title: "Series required", description: "Select the series to delete" });
       return;
     }
     try {
       const { error } = await supabase.rpc("admin_delete_series", {
-        admin_code: code,
         p_series_id: delSeriesId,
       });
       if (error) throw error;
       toast({ title: "Series deleted", description: delSeriesId });
       setDelSeriesId("");
+      setDelEpisodeId("");
+      queryClient.invalidateQueries({ queryKey: ["admin-series-options"] });
     } catch (err: any) {
       toast({ title: "Failed to delete series", description: err.message || String(err), variant: "destructive" });
     }
@@ -326,17 +180,17 @@ const Admin = () => {
 
   const handleDeleteEpisode = async () => {
     if (!delEpisodeId) {
-      toast({ title: "Episode ID required", description: "Enter the Episode UUID to delete" });
+      toast({ title: "Episode required", description: "Select the episode to delete" });
       return;
     }
     try {
       const { error } = await supabase.rpc("admin_delete_episode", {
-        admin_code: code,
         p_episode_id: delEpisodeId,
       });
       if (error) throw error;
       toast({ title: "Episode deleted", description: delEpisodeId });
       setDelEpisodeId("");
+      invalidateEpisodeQueries();
     } catch (err: any) {
       toast({ title: "Failed to delete episode", description: err.message || String(err), variant: "destructive" });
     }
@@ -344,12 +198,11 @@ const Admin = () => {
 
   const handleUpdateSeriesStatus = async () => {
     if (!statusSeriesId) {
-      toast({ title: "Series ID required", description: "Enter the Series UUID" });
+      toast({ title: "Series required", description: "Select the series to update" });
       return;
     }
     try {
       const { error } = await (supabase as any).rpc("admin_update_series_status", {
-        admin_code: code,
         p_series_id: statusSeriesId,
         p_status: statusToSet,
       });
@@ -362,222 +215,242 @@ const Admin = () => {
     }
   };
 
-  if (!authorized) {
-    return (
-      <main className="container mx-auto max-w-xl px-4 py-10">
-        <Card>
-          <CardHeader>
-            <CardTitle>Admin Access</CardTitle>
-            <CardDescription>Enter the secret admin code to continue</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <form onSubmit={handleAuthorize} className="flex gap-2">
-              <div className="grid flex-1 gap-2">
-                <Label htmlFor="code">Admin Code</Label>
-                <Input id="code" type="password" value={code} onChange={(e) => setCode(e.target.value)} required />
-              </div>
-              <div className="self-end">
-                <Button type="submit">Enter</Button>
-              </div>
-            </form>
-          </CardContent>
-        </Card>
-      </main>
-    );
-  }
-
   return (
     <main className="container mx-auto px-4 py-10">
       <section className="mb-8">
-        <h1 className="mb-2 text-3xl font-bold">Admin Panel</h1>
-        <p className="text-muted-foreground">Create and manage series cards, playlists, and episodes. Dailymotion & YouTube are supported.</p>
+        <div className="flex flex-col gap-3 md:flex-row md:items-start md:justify-between">
+          <div>
+            <h1 className="mb-2 text-3xl font-bold">Admin Panel</h1>
+            <p className="text-muted-foreground">Create and manage series cards, playlists, and episodes. Dailymotion & YouTube are supported.</p>
+          </div>
+          <div className="flex items-center gap-3 text-sm text-muted-foreground">
+            <span>{user?.email} <span className="capitalize">({role})</span></span>
+            <Button variant="secondary" size="sm" onClick={signOut}>Sign out</Button>
+          </div>
+        </div>
       </section>
 
-      <div className="grid gap-6 md:grid-cols-2">
-        <Card>
-          <CardHeader>
-            <CardTitle>Create Series Card</CardTitle>
-            <CardDescription>Define a series with cover image and optional Dailymotion playlist</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="grid gap-4">
-              <div className="grid gap-2">
-                <Label htmlFor="title">Title</Label>
-                <Input id="title" placeholder="e.g. Demon Slayer" value={title} onChange={(e) => setTitle(e.target.value)} />
-              </div>
-              <div className="grid gap-2">
-                <Label htmlFor="desc">Description</Label>
-                <Input id="desc" placeholder="Short synopsis" value={desc} onChange={(e) => setDesc(e.target.value)} />
-              </div>
-              <div className="grid gap-2">
-                <Label htmlFor="cover">Cover Image URL</Label>
-                <Input id="cover" placeholder="https://...jpg" value={cover} onChange={(e) => setCover(e.target.value)} />
-              </div>
-              <div className="grid gap-2">
-                <Label htmlFor="playlist">Dailymotion Playlist ID (optional)</Label>
-                <Input id="playlist" placeholder="x123abc" value={playlist} onChange={(e) => setPlaylist(e.target.value)} />
-              </div>
-              <div className="grid gap-2">
-                <Label htmlFor="category">Category</Label>
-                <Select value={category} onValueChange={(v) => setCategory(v as any)}>
-                  <SelectTrigger id="category">
-                    <SelectValue placeholder="Select category" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="donghua">Donghua</SelectItem>
-                    <SelectItem value="anime">Anime</SelectItem>
-                    <SelectItem value="movie">Movie</SelectItem>
-                    <SelectItem value="cartoon">Cartoon</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="grid gap-2">
-                <Label htmlFor="status">Status</Label>
-                <Select value={newStatus} onValueChange={(v) => setNewStatus(v as any)}>
-                  <SelectTrigger id="status">
-                    <SelectValue placeholder="Select status" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="ongoing">Ongoing</SelectItem>
-                    <SelectItem value="completed">Completed</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="flex gap-2">
-                <Button onClick={handleSaveSeries}>Save Series</Button>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
+      <Tabs defaultValue="manage">
+        <TabsList className="mb-6">
+          <TabsTrigger value="manage">Manage</TabsTrigger>
+          <TabsTrigger value="analytics">Analytics</TabsTrigger>
+        </TabsList>
 
-        <Card>
-          <CardHeader>
-            <CardTitle>Add Episode to Series</CardTitle>
-            <CardDescription>Attach a Dailymotion video to a series as an episode (paste ID or public URL)</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="grid gap-4">
-              <div className="grid gap-2">
-                <Label htmlFor="series">Series ID</Label>
-                <Input id="series" placeholder="Paste the Series UUID" value={epSeriesId} onChange={(e) => setEpSeriesId(e.target.value)} />
-              </div>
-              <div className="grid gap-2">
-                <Label htmlFor="ep-title">Episode Title</Label>
-                <Input id="ep-title" placeholder="S01E01 - Episode name" value={epTitle} onChange={(e) => setEpTitle(e.target.value)} />
-              </div>
-              <div className="grid gap-2">
-                <Label htmlFor="videoId">Dailymotion Video ID or URL</Label>
-                <Input id="videoId" placeholder="x7xyzab or https://www.dailymotion.com/video/x7xyzab" value={videoId} onChange={(e) => setVideoId(e.target.value)} />
-              </div>
-              <Button onClick={handleSaveEpisode}>Upload/Link Episode</Button>
+        <TabsContent value="manage">
+          {!canEditContent && (
+            <div className="mb-6 rounded-lg bg-muted/50 p-3 text-sm text-muted-foreground">
+              <p>Your role can moderate comments but cannot create or edit series and episodes.</p>
             </div>
-          </CardContent>
-        </Card>
+          )}
 
-        <Card>
-          <CardHeader>
-            <CardTitle>Import Episodes from Dailymotion Playlist</CardTitle>
-            <CardDescription>Paste a public playlist link or ID, fetch videos, select and import into the series.</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="grid gap-4">
-              <div className="grid gap-2">
-                <Label htmlFor="pl-series">Series ID</Label>
-                <Input id="pl-series" placeholder="Series UUID" value={epSeriesId} onChange={(e) => setEpSeriesId(e.target.value)} />
-              </div>
-              <div className="grid gap-2">
-                <Label htmlFor="pl-url">Playlist URL or ID</Label>
-                <Input id="pl-url" placeholder="https://www.dailymotion.com/playlist/x85adw" value={plUrl} onChange={(e) => setPlUrl(e.target.value)} />
-              </div>
-              <div className="flex gap-2">
-                <Button onClick={handleFetchPlaylist} disabled={isFetchingPlaylist}>{isFetchingPlaylist ? "Fetching..." : "Fetch Videos"}</Button>
-                {plVideos.length > 0 && (
-                  <Button variant="secondary" onClick={handleImportSelected} disabled={isImportingEpisodes}>
-                    {isImportingEpisodes ? "Importing..." : `Import Selected (${Object.values(plSelected).filter(Boolean).length})`}
-                  </Button>
-                )}
-              </div>
-              {plVideos.length > 0 && (
-                <div className="rounded-md border">
-                  <div className="flex items-center gap-2 p-3 border-b">
-                    <Checkbox id="select-all" checked={plVideos.length > 0 && plVideos.every(v => plSelected[v.id])} onCheckedChange={(c) => {
-                      const checked = Boolean(c);
-                      const next: Record<string, boolean> = {};
-                      plVideos.forEach(v => next[v.id] = checked);
-                      setPlSelected(next);
-                    }} />
-                    <Label htmlFor="select-all">Select all ({plVideos.length})</Label>
+          <div className="grid gap-6 md:grid-cols-2">
+            {role === "owner" && user && <StaffRolesCard currentUserId={user.id} />}
+
+            {role === "owner" && <RatingSettingsCard />}
+
+            {canEditContent && (
+              <>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Create Series Card</CardTitle>
+                  <CardDescription>Define a series with cover image and optional Dailymotion playlist</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid gap-4">
+                    <div className="grid gap-2">
+                      <Label htmlFor="title">Title</Label>
+                      <Input id="title" placeholder="e.g. Demon Slayer" value={title} onChange={(e) => setTitle(e.target.value)} />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="slug">Slug (optional)</Label>
+                      <Input id="slug" placeholder={slugify(title) || "demon-slayer"} value={slug} onChange={(e) => setSlug(e.target.value)} />
+                      <p className="text-xs text-muted-foreground">Leave empty to generate it from the title.</p>
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="desc">Description</Label>
+                      <Input id="desc" placeholder="Short synopsis" value={desc} onChange={(e) => setDesc(e.target.value)} />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="cover">Cover Image URL</Label>
+                      <Input id="cover" placeholder="https://...jpg" value={cover} onChange={(e) => setCover(e.target.value)} />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="playlist">Dailymotion Playlist ID (optional)</Label>
+                      <Input id="playlist" placeholder="x123abc" value={playlist} onChange={(e) => setPlaylist(e.target.value)} />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="category">Category</Label>
+                      <Select value={category} onValueChange={(v) => setCategory(v as any)}>
+                        <SelectTrigger id="category">
+                          <SelectValue placeholder="Select category" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="donghua">Donghua</SelectItem>
+                          <SelectItem value="anime">Anime</SelectItem>
+                          <SelectItem value="movie">Movie</SelectItem>
+                          <SelectItem value="cartoon">Cartoon</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="status">Status</Label>
+                      <Select value={newStatus} onValueChange={(v) => setNewStatus(v as any)}>
+                        <SelectTrigger id="status">
+                          <SelectValue placeholder="Select status" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="ongoing">Ongoing</SelectItem>
+                          <SelectItem value="completed">Completed</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button onClick={handleSaveSeries}>Save Series</Button>
+                    </div>
                   </div>
-                  <div className="max-h-80 overflow-auto divide-y">
-                    {plVideos.map(v => (
-                      <div key={v.id} className="flex items-center gap-3 p-3">
-                        <Checkbox id={`v-${v.id}`} checked={!!plSelected[v.id]} onCheckedChange={(c) => {
-                          setPlSelected(prev => ({ ...prev, [v.id]: Boolean(c) }));
-                        }} />
-                        <Label htmlFor={`v-${v.id}`} className="flex-1">
-                          <span className="font-medium">{v.title}</span>
-                          <span className="ml-2 text-xs text-muted-foreground">({v.id})</span>
-                        </Label>
+                </CardContent>
+              </Card>
+
+              <SeriesEditorCard />
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Add Episode to Series</CardTitle>
+                  <CardDescription>Attach a Dailymotion video to a series as an episode (paste ID or public URL)</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid gap-4">
+                    <div className="grid gap-2">
+                      <Label htmlFor="series">Series</Label>
+                      <SeriesPicker id="series" value={epSeriesId} onChange={setEpSeriesId} />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="ep-title">Episode Title</Label>
+                      <Input id="ep-title" placeholder="S01E01 - Episode name" value={epTitle} onChange={(e) => setEpTitle(e.target.value)} />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="grid gap-2">
+                        <Label htmlFor="ep-season">Season</Label>
+                        <Input id="ep-season" type="number" min={0} placeholder="1" value={epSeason} onChange={(e) => setEpSeason(e.target.value)} />
+                      </div>
+                      <div className="grid gap-2">
+                        <Label htmlFor="ep-number">Episode</Label>
+                        <Input id="ep-number" type="number" min={0} placeholder="1" value={epNumber} onChange={(e) => setEpNumber(e.target.value)} />
                       </div>
-                    ))}
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="ep-desc">Description (optional)</Label>
+                      <Input id="ep-desc" placeholder="Short synopsis" value={epDesc} onChange={(e) => setEpDesc(e.target.value)} />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="ep-published">Publish Date (optional)</Label>
+                      <Input id="ep-published" type="datetime-local" value={epPublishedAt} onChange={(e) => setEpPublishedAt(e.target.value)} />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="videoId">Dailymotion Video ID or URL</Label>
+                      <Input id="videoId" placeholder="x7xyzab or https://www.dailymotion.com/video/x7xyzab" value={videoId} onChange={(e) => setVideoId(e.target.value)} />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="ep-thumbnail">Thumbnail URL (optional)</Label>
+                      <Input id="ep-thumbnail" placeholder="Defaults to the provider thumbnail" value={epThumbnail} onChange={(e) => setEpThumbnail(e.target.value)} />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="grid gap-2">
+                        <Label htmlFor="ep-duration">Duration (optional)</Label>
+                        <Input id="ep-duration" placeholder="23:40" value={epDuration} onChange={(e) => setEpDuration(e.target.value)} />
+                      </div>
+                      <div className="grid gap-2">
+                        <Label htmlFor="ep-channel">Channel (optional)</Label>
+                        <Input id="ep-channel" placeholder="Uploader name" value={epChannel} onChange={(e) => setEpChannel(e.target.value)} />
+                      </div>
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="ep-uploaded">Original Upload Date (optional)</Label>
+                      <Input id="ep-uploaded" type="datetime-local" value={epUploadedAt} onChange={(e) => setEpUploadedAt(e.target.value)} />
+                    </div>
+                    <Button onClick={handleSaveEpisode}>Upload/Link Episode</Button>
                   </div>
-                </div>
-              )}
-            </div>
-          </CardContent>
-        </Card>
+                </CardContent>
+              </Card>
 
-        <Card>
-          <CardHeader>
-            <CardTitle>Update Series Status</CardTitle>
-            <CardDescription>Set a series as Ongoing or Completed</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="grid gap-4">
-              <div className="grid gap-2">
-                <Label htmlFor="status-series-id">Series ID</Label>
-                <Input id="status-series-id" placeholder="Series UUID" value={statusSeriesId} onChange={(e) => setStatusSeriesId(e.target.value)} />
-              </div>
-              <div className="grid gap-2">
-                <Label htmlFor="status-select">Status</Label>
-                <Select value={statusToSet} onValueChange={(v) => setStatusToSet(v as any)}>
-                  <SelectTrigger id="status-select">
-                    <SelectValue placeholder="Select status" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="ongoing">Ongoing</SelectItem>
-                    <SelectItem value="completed">Completed</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div>
-                <Button onClick={handleUpdateSeriesStatus}>Update Status</Button>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
+              <PlaylistImportCard provider="dailymotion" seriesId={epSeriesId} onSeriesChange={setEpSeriesId} />
 
-        <Card>
-          <CardHeader>
-            <CardTitle>Delete Series or Episode</CardTitle>
-            <CardDescription>Danger zone: this permanently removes data</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="grid gap-4">
-              <div className="grid gap-2">
-                <Label htmlFor="del-series">Series ID</Label>
-                <Input id="del-series" placeholder="Series UUID" value={delSeriesId} onChange={(e) => setDelSeriesId(e.target.value)} />
-                <Button variant="destructive" onClick={handleDeleteSeries}>Delete Series (and its Episodes)</Button>
-              </div>
-              <div className="grid gap-2">
-                <Label htmlFor="del-episode">Episode ID</Label>
-                <Input id="del-episode" placeholder="Episode UUID" value={delEpisodeId} onChange={(e) => setDelEpisodeId(e.target.value)} />
-                <Button variant="destructive" onClick={handleDeleteEpisode}>Delete Episode</Button>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-      </div>
+              <PlaylistImportCard provider="youtube" seriesId={epSeriesId} onSeriesChange={setEpSeriesId} />
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Update Series Status</CardTitle>
+                  <CardDescription>Set a series as Ongoing or Completed</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid gap-4">
+                    <div className="grid gap-2">
+                      <Label htmlFor="status-series-id">Series</Label>
+                      <SeriesPicker id="status-series-id" value={statusSeriesId} onChange={setStatusSeriesId} />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="status-select">Status</Label>
+                      <Select value={statusToSet} onValueChange={(v) => setStatusToSet(v as any)}>
+                        <SelectTrigger id="status-select">
+                          <SelectValue placeholder="Select status" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="ongoing">Ongoing</SelectItem>
+                          <SelectItem value="completed">Completed</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Button onClick={handleUpdateSeriesStatus}>Update Status</Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Delete Series or Episode</CardTitle>
+                  <CardDescription>Danger zone: this permanently removes data</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid gap-4">
+                    <div className="grid gap-2">
+                      <Label htmlFor="del-series">Series</Label>
+                      <SeriesPicker
+                        id="del-series"
+                        value={delSeriesId}
+                        onChange={(id) => {
+                          setDelSeriesId(id);
+                          setDelEpisodeId("");
+                        }}
+                      />
+                      <Button variant="destructive" onClick={handleDeleteSeries}>Delete Series (and its Episodes)</Button>
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="del-episode">Episode</Label>
+                      <EpisodePicker id="del-episode" seriesId={delSeriesId} value={delEpisodeId} onChange={setDelEpisodeId} />
+                      <Button variant="destructive" onClick={handleDeleteEpisode}>Delete Episode</Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <EpisodeManagerCard />
+
+              <EpisodeSourcesCard />
+
+              <EpisodeOrderCard />
+
+              <SyncRunsCard />
+              </>
+            )}
+          </div>
+        </TabsContent>
+
+        <TabsContent value="analytics">
+          <AnalyticsPanel />
+        </TabsContent>
+      </Tabs>
     </main>
   );
 };
@@ -0,0 +1,68 @@
+import { useState } from "react";
+import { Navigate, useLocation, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { useAdminAuth } from "@/hooks/use-admin-auth";
+
+const AdminLogin = () => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { user, isLoading } = useAdminAuth();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const from = (location.state as { from?: Location } | null)?.from?.pathname || "/admin";
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+      if (error) throw error;
+      toast({ title: "Signed in", description: "Welcome to the admin panel" });
+      navigate(from, { replace: true });
+    } catch (err) {
+      toast({ title: "Sign in failed", description: err.message || String(err), variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isLoading && user) {
+    return <Navigate to={from} replace />;
+  }
+
+  return (
+    <main className="container mx-auto max-w-xl px-4 py-10">
+      <Card>
+        <CardHeader>
+          <CardTitle>Staff Sign In</CardTitle>
+          <CardDescription>Sign in with your staff account to manage series and episodes</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSignIn} className="grid gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="email">Email</Label>
+              <Input id="email" type="email" autoComplete="email" value={email} onChange={(e) => setEmail(e.target.value)} required />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="password">Password</Label>
+              <Input id="password" type="password" autoComplete="current-password" value={password} onChange={(e) => setPassword(e.target.value)} required />
+            </div>
+            <div>
+              <Button type="submit" disabled={isSubmitting}>{isSubmitting ? "Signing in..." : "Sign in"}</Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </main>
+  );
+};
+
+export default AdminLogin;
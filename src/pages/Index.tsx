@@ -1,35 +1,95 @@
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Link } from "react-router-dom";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
-import { Eye, Star, MessageCircle } from "lucide-react";
+import SeriesCard from "@/components/series/SeriesCard";
+import SeriesRow from "@/components/series/SeriesRow";
 import { useEffect, useState } from "react";
 
+type SortKey = "newest" | "trending" | "most_viewed_week" | "popular" | "top_rated";
+type Category = "all" | "donghua" | "anime" | "movie" | "cartoon";
+
+// Each sort falls back to newest first so ties stay stable. Trending columns
+// come from series_trending, refreshed every 15 minutes; series created since
+// the last refresh start at zero.
+const SORTS: Record<SortKey, { label: string; order: [string, boolean][] }> = {
+  newest: { label: "Newest", order: [["created_at", false]] },
+  trending: { label: "Trending", order: [["series_trending(score)", false], ["created_at", false]] },
+  most_viewed_week: { label: "Most viewed this week", order: [["series_trending(views_7d)", false], ["created_at", false]] },
+  popular: { label: "Popular all-time", order: [["views_count", false], ["created_at", false]] },
+  top_rated: { label: "Top rated", order: [["weighted_rating", false], ["rating_count", false], ["created_at", false]] },
+};
+
+const SERIES_COLUMNS =
+  "id,slug,title,description,cover_image_url,dailymotion_playlist_id,created_at,views_count,rating_sum,rating_count,weighted_rating,comment_count:comments(count)";
+
+// Homepage rows above the browse grid; rows on windowed activity skip series
+// with none in that window
+const ROWS: { sort: SortKey; title: string; activeColumn?: string }[] = [
+  { sort: "trending", title: "Trending now", activeColumn: "score" },
+  { sort: "most_viewed_week", title: "Most viewed this week", activeColumn: "views_7d" },
+  { sort: "popular", title: "Popular all-time" },
+];
+
+const ROW_SIZE = 12;
+
+const fetchSeries = async ({
+  sort,
+  cat = "all",
+  q = "",
+  activeColumn,
+  limit,
+}: {
+  sort: SortKey;
+  cat?: Category;
+  q?: string;
+  activeColumn?: string;
+  limit?: number;
+}) => {
+  const pattern = q ? `%${q}%` : "";
+  // An inner join drops series without activity once the filter below applies
+  let qb = activeColumn
+    ? supabase.from("series").select(`${SERIES_COLUMNS},series_trending!inner(score,views_7d)`)
+    : supabase.from("series").select(`${SERIES_COLUMNS},series_trending(score,views_7d)`);
+  for (const [column, ascending] of SORTS[sort].order) {
+    qb = qb.order(column, { ascending, nullsFirst: false });
+  }
+  if (activeColumn) {
+    qb = qb.gt(`series_trending.${activeColumn}`, 0);
+  }
+  if (cat !== "all") {
+    qb = qb.eq("category", cat);
+  }
+  if (q && q.trim().length > 0) {
+    qb = qb.or(`title.ilike.${pattern},description.ilike.${pattern}`);
+  }
+  if (limit) {
+    qb = qb.limit(limit);
+  }
+  const { data, error } = await qb;
+  if (error) throw error;
+  return data ?? [];
+};
+
+const HomeRow = ({ sort, title, activeColumn }: (typeof ROWS)[number]) => {
+  const { data } = useQuery({
+    queryKey: ["series-row", sort],
+    queryFn: () => fetchSeries({ sort, activeColumn, limit: ROW_SIZE }),
+  });
+  return <SeriesRow title={title} series={data ?? []} />;
+};
+
 const Index = () => {
   const queryClient = useQueryClient();
   const [q, setQ] = useState("");
-  const [cat, setCat] = useState<"all" | "donghua" | "anime" | "movie" | "cartoon">("all");
+  const [cat, setCat] = useState<Category>("all");
+  const [sort, setSort] = useState<SortKey>("newest");
   const { data: series, isLoading, error } = useQuery({
-    queryKey: ["series", q, cat, status],
-    queryFn: async () => {
-      const pattern = q ? `%${q}%` : "";
-      let qb = (supabase as any)
-        .from("series")
-        .select("id,title,description,cover_image_url,dailymotion_playlist_id,created_at,views_count,rating_sum,rating_count,comment_count:comments(count)")
-        .order("created_at", { ascending: false });
-      if (cat !== "all") {
-        qb = qb.eq("category", cat);
-      }
-      if (q && q.trim().length > 0) {
-        qb = qb.or(`title.ilike.${pattern},description.ilike.${pattern}`);
-      }
-      const { data, error } = await qb;
-      if (error) throw error;
-      return data ?? [];
-    },
+    queryKey: ["series", q, cat, sort],
+    queryFn: () => fetchSeries({ sort, cat, q }),
   });
 
   return (
@@ -53,6 +113,12 @@ const Index = () => {
         </div>
       </section>
 
+      <div className="container mx-auto px-4 pt-10">
+        {ROWS.map((row) => (
+          <HomeRow key={row.sort} {...row} />
+        ))}
+      </div>
+
       <section className="container mx-auto px-4 py-10">
         <header className="mb-6">
           <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
@@ -64,16 +130,28 @@ const Index = () => {
                 <p className="text-sm text-muted-foreground">{isLoading ? "Loading..." : `${series.length} series found`}</p>
               )}
             </div>
-            <div className="w-full md:max-w-md">
+            <div className="flex w-full gap-2 md:max-w-lg">
               <Input
                 value={q}
                 onChange={(e) => setQ(e.target.value)}
                 placeholder="Search Donghua, Anime, Movies, Cartoon..."
                 aria-label="Search series"
               />
+              <Select value={sort} onValueChange={(v) => setSort(v as SortKey)}>
+                <SelectTrigger className="w-40 shrink-0" aria-label="Sort series">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SORTS) as SortKey[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {SORTS[key].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
           </div>
-          <Tabs value={cat} onValueChange={(v) => setCat(v as any)} className="mt-4">
+          <Tabs value={cat} onValueChange={(v) => setCat(v as Category)} className="mt-4">
             <TabsList className="grid w-full grid-cols-5 sm:w-auto">
               <TabsTrigger value="all">All</TabsTrigger>
               <TabsTrigger value="donghua">Donghua</TabsTrigger>
@@ -84,43 +162,9 @@ const Index = () => {
           </Tabs>
         </header>
         <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5">
-          {series?.map((s) => {
-            const avg = s.rating_count > 0 ? (s.rating_sum / s.rating_count).toFixed(1) : "0.0";
-            const commentCount = Array.isArray(s.comment_count) ? s.comment_count.length : 0;
-            return (
-              <Link key={s.id} to={`/series/${s.id}`} className="group">
-                <Card className="overflow-hidden">
-                  <div className="relative aspect-[3/4] w-full overflow-hidden">
-                    <img
-                      src={s.cover_image_url || "/placeholder.svg"}
-                      alt={`${s.title} cover image`}
-                      loading="lazy"
-                      className="h-full w-full object-cover transition-transform duration-300 group-hover:scale-105"
-                    />
-                    <div className="absolute left-2 top-2 flex items-center gap-1 rounded-md bg-background/80 px-2 py-1 text-xs text-foreground backdrop-blur">
-                      <Eye className="mr-1 h-3 w-3" /> {s.views_count ?? 0}
-                    </div>
-                    <div className="absolute bottom-2 left-2 flex items-center gap-1 rounded-md bg-background/80 px-2 py-1 text-xs text-foreground backdrop-blur">
-                      <Star className="mr-1 h-3 w-3 fill-yellow-500 text-yellow-500" /> {avg}
-                    </div>
-                    {commentCount > 0 && (
-                      <div className="absolute bottom-2 right-2 flex items-center gap-1 rounded-md bg-background/80 px-2 py-1 text-xs text-foreground backdrop-blur">
-                        <MessageCircle className="mr-1 h-3 w-3" /> {commentCount}
-                      </div>
-                    )}
-                  </div>
-                  <CardHeader className="p-3">
-                    <CardTitle className="line-clamp-1 text-base">{s.title}</CardTitle>
-                  </CardHeader>
-                  {s.description && (
-                    <CardContent className="p-3 pt-0">
-                      <p className="line-clamp-2 text-xs text-muted-foreground">{s.description}</p>
-                    </CardContent>
-                  )}
-                </Card>
-              </Link>
-            );
-          })}
+          {series?.map((s) => (
+            <SeriesCard key={s.id} series={s} />
+          ))}
         </div>
       </section>
     </main>
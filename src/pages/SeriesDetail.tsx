@@ -1,135 +1,271 @@
-import { useEffect, useState } from "react";
-import { useParams } from "react-router-dom";
-import DailymotionPlayer from "@/components/player/DailymotionPlayer";
-import YouTubePlayer from "@/components/player/YouTubePlayer";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import VideoPlayer, { type VideoPlayerHandle } from "@/components/player/VideoPlayer";
+import ResumePrompt from "@/components/player/ResumePrompt";
+import UpNextOverlay from "@/components/player/UpNextOverlay";
+import {
+  isMirrorOf,
+  mirrorLabel,
+  mirrorSource,
+  playableMirrors,
+  playlistSource,
+  type EpisodeMirror,
+  type PlayerError,
+  type VideoSource,
+} from "@/components/player/providers";
+import SourceSwitcher from "@/components/player/SourceSwitcher";
 import CommentsList from "@/components/comments/CommentsList";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { useQuery } from "@tanstack/react-query";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAutoplayNext } from "@/hooks/use-autoplay-next";
+import { usePlaybackPosition } from "@/hooks/use-playback-position";
+import { usePlaybackStats } from "@/hooks/use-playback-stats";
+import { useViewTracker } from "@/hooks/use-view-tracker";
+import EpisodeBrowser from "@/components/series/EpisodeBrowser";
+import EpisodeNav from "@/components/series/EpisodeNav";
+import RatingWidget from "@/components/series/RatingWidget";
+import { episodeLabel } from "@/lib/episode-label";
+import { episodePath, seriesPath } from "@/lib/routes";
+import { canResume, loadPlaybackPositions, progressFraction, type PlaybackPosition, type PlaybackPositions } from "@/lib/playback-positions";
+import { isUuid } from "@/lib/slug";
+
+const AUTOPLAY_COUNTDOWN_SECONDS = 10;
 
 const SeriesDetail = () => {
-  const { id } = useParams();
+  const { slug, episodeId } = useParams();
+  const navigate = useNavigate();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const playerRef = useRef<VideoPlayerHandle>(null);
 
   const { data: series, refetch } = useQuery({
-    queryKey: ["series", id],
+    queryKey: ["series", slug],
     queryFn: async () => {
-      const { data, error } = await supabase
-        .from("series")
-        .select("id,title,description,dailymotion_playlist_id,youtube_playlist_id,cover_image_url,views_count,rating_sum,rating_count")
-        .eq("id", id)
+      const lookup = async (column: "id" | "slug", value: string) => {
+        const { data, error } = await supabase
+          .from("series")
+          .select("id,slug,title,description,dailymotion_playlist_id,youtube_playlist_id,cover_image_url,views_count,rating_sum,rating_count")
+          .eq(column, value)
+          .maybeSingle();
+        if (error) throw error;
+        return data;
+      };
+      if (isUuid(slug!)) return lookup("id", slug!);
+      const current = await lookup("slug", slug!);
+      if (current) return current;
+      // Renamed slugs keep working through the redirect table
+      const { data: redirect, error } = await supabase
+        .from("series_slug_redirects")
+        .select("series_id")
+        .eq("slug", slug!)
         .maybeSingle();
       if (error) throw error;
-      return data;
+      return redirect ? lookup("id", redirect.series_id) : null;
     },
-    enabled: !!id,
+    enabled: !!slug,
   });
+  const id = series?.id;
 
   const { data: episodes } = useQuery({
     queryKey: ["episodes", id],
     queryFn: async () => {
       const { data, error } = await supabase
         .from("episodes")
-        .select("id,title,dailymotion_video_id,youtube_video_id,season_number,episode_number")
+        .select(
+          "id,title,dailymotion_video_id,youtube_video_id,season_number,episode_number,thumbnail_url,duration_seconds,uploaded_at,provider_channel,episode_sources(id,provider,video_id,priority,language,label)"
+        )
         .eq("series_id", id)
+        // Same order as the admin lists, with tiebreakers so previous/next stay stable across refetches
         .order("season_number", { ascending: true, nullsFirst: true })
-        .order("episode_number", { ascending: true, nullsFirst: true });
+        .order("episode_number", { ascending: true, nullsFirst: true })
+        .order("created_at", { ascending: true })
+        .order("id", { ascending: true });
       if (error) throw error;
       return data ?? [];
     },
     enabled: !!id,
   });
 
-  const [provider, setProvider] = useState<"dailymotion" | "youtube">("dailymotion");
-  const [currentId, setCurrentId] = useState<string | undefined>(undefined);
+  // UUID and old-slug URLs are replaced with the current slug
+  useEffect(() => {
+    if (!series?.slug || series.slug === slug) return;
+    navigate(episodeId ? episodePath(series, episodeId) : seriesPath(series), { replace: true });
+  }, [series, slug, episodeId, navigate]);
+
+  const [source, setSource] = useState<VideoSource | undefined>(undefined);
   const [isWatching, setIsWatching] = useState(false);
-  const [watchStartTime, setWatchStartTime] = useState<number | null>(null);
-  const [totalViewsAdded, setTotalViewsAdded] = useState(0);
-  const [selectedEpisodeId, setSelectedEpisodeId] = useState<string | undefined>(undefined);
+  const [autoplayNext, setAutoplayNext] = useAutoplayNext();
+  const [showUpNext, setShowUpNext] = useState(false);
+  // Set when the countdown moves on, so the next player starts by itself
+  // whichever provider it uses
+  const [autoplayLoad, setAutoplayLoad] = useState(false);
+  const sourceKey = source ? `${source.provider}:${source.videoId ?? "playlist"}` : undefined;
+
+  // Reset watching state when changing videos. The new player has already
+  // read autoplayLoad by now, as child effects run first.
+  useEffect(() => {
+    setIsWatching(false);
+    setShowUpNext(false);
+    setAutoplayLoad(false);
+  }, [sourceKey]);
+  
+  const routeEpisode = episodeId ? episodes?.find((ep) => ep.id === episodeId) : undefined;
+
+  useEffect(() => {
+    if (!episodeId || !episodes || routeEpisode) return;
+    toast({ title: "Episode not found", description: "It may have been removed from this series.", variant: "destructive" });
+    navigate(seriesPath(series!), { replace: true });
+  }, [episodeId, episodes, routeEpisode, series, navigate, toast]);
 
+  // Bring the player into view when moving between episodes
   useEffect(() => {
-    if (!id) return;
-    // Initial view count increment when page loads
-    supabase.rpc("increment_series_view", { p_series_id: id }).then(() => {
-      refetch();
-      setTotalViewsAdded(1);
+    if (episodeId) window.scrollTo({ top: 0, behavior: "smooth" });
+  }, [episodeId]);
+
+  // An episode in the URL wins over the series playlist; without either,
+  // play the first episode
+  const playlist = useMemo(() => (series ? playlistSource(series) : undefined), [series]);
+  const targetEpisode = routeEpisode ?? (playlist ? undefined : episodes?.[0]);
+  const targetMirrors = useMemo(() => playableMirrors(targetEpisode?.episode_sources), [targetEpisode]);
+  const noPlayableSource = !!targetEpisode && targetMirrors.length === 0;
+
+  useEffect(() => {
+    // Refetches must not undo a fallback or a mirror the viewer picked
+    setSource((prev) => {
+      if (!targetEpisode) return playlist ?? prev;
+      if (targetMirrors.length === 0) return undefined;
+      return targetMirrors.some((m) => isMirrorOf(m, prev)) ? prev : mirrorSource(targetMirrors[0]);
     });
-  }, [id, refetch]);
+  }, [targetEpisode, playlist, targetMirrors]);
+
+  const currentEpisode = source?.videoId
+    ? episodes?.find((ep) => ep.episode_sources.some((m) => isMirrorOf(m, source)))
+    : undefined;
+  const currentMirrors = playableMirrors(currentEpisode?.episode_sources);
+  const activeMirror = currentMirrors.find((m) => isMirrorOf(m, source));
 
-  // Time-based view counting system
+  // Mirrors that failed for the current episode, tried last and flagged in the switcher
+  const [failedMirrors, setFailedMirrors] = useState<string[]>([]);
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    
-    if (isWatching && id) {
-      interval = setInterval(async () => {
-        try {
-          await supabase.rpc("increment_series_view", { p_series_id: id });
-          setTotalViewsAdded(prev => prev + 1);
-          refetch();
-        } catch (error) {
-          console.error("Failed to increment view:", error);
-        }
-      }, 5000); // Increment every 5 seconds
+    setFailedMirrors([]);
+  }, [currentEpisode?.id]);
+
+  const selectMirror = (mirror: EpisodeMirror) => {
+    setFailedMirrors((prev) => prev.filter((failedId) => failedId !== mirror.id));
+    setSource(mirrorSource(mirror));
+  };
+
+  const handlePlayerError = (error: PlayerError) => {
+    if (!activeMirror) {
+      toast({ title: "Playback failed", description: error.message, variant: "destructive" });
+      return;
     }
+    const failed = [...failedMirrors, activeMirror.id];
+    setFailedMirrors(failed);
+    const fallback = currentMirrors.find((m) => !failed.includes(m.id));
+    if (fallback) {
+      setSource(mirrorSource(fallback));
+      toast({ title: `Switched to ${mirrorLabel(fallback)}`, description: `${mirrorLabel(activeMirror)}: ${error.message}` });
+    } else {
+      toast({ title: "No working source", description: error.message, variant: "destructive" });
+    }
+  };
+  const currentIndex = currentEpisode && episodes ? episodes.indexOf(currentEpisode) : -1;
+  const nextEpisode = currentIndex >= 0 ? episodes?.[currentIndex + 1] : undefined;
+
+  const viewTracker = useViewTracker(
+    { seriesId: id, episodeId: currentEpisode?.id, videoKey: sourceKey },
+    refetch
+  );
+  const playbackStats = usePlaybackStats(currentEpisode?.id);
 
-    return () => {
-      if (interval) {
-        clearInterval(interval);
+  const { data: positions } = useQuery({
+    queryKey: ["playback-positions", id],
+    queryFn: () => loadPlaybackPositions(id!),
+    enabled: !!id,
+  });
+  // Positions come from the account when signed in and from this browser otherwise
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === "SIGNED_IN" || event === "SIGNED_OUT") {
+        queryClient.invalidateQueries({ queryKey: ["playback-positions"] });
       }
-    };
-  }, [isWatching, id, refetch]);
+    });
+    return () => subscription.unsubscribe();
+  }, [queryClient]);
+  const handlePositionSaved = useCallback(
+    (savedEpisodeId: string, position: PlaybackPosition) => {
+      queryClient.setQueryData<PlaybackPositions>(["playback-positions", id], (prev) => ({ ...prev, [savedEpisodeId]: position }));
+    },
+    [queryClient, id]
+  );
+  const positionTracker = usePlaybackPosition({ seriesId: id, episodeId: currentEpisode?.id }, handlePositionSaved);
+
+  // Offer to resume once per episode load, from where it was left last time
+  const [resumeFrom, setResumeFrom] = useState<number | null>(null);
+  const promptedFor = useRef<string | undefined>(undefined);
+  useEffect(() => {
+    const epId = currentEpisode?.id;
+    if (epId === promptedFor.current || (epId && !positions)) return;
+    promptedFor.current = epId;
+    const saved = epId ? positions[epId] : undefined;
+    setResumeFrom(canResume(saved) ? saved.position : null);
+  }, [currentEpisode?.id, positions]);
+
+  const handleResume = () => {
+    if (resumeFrom != null) {
+      playerRef.current?.seek(resumeFrom);
+      playerRef.current?.play();
+    }
+    setResumeFrom(null);
+  };
+
+  const episodeProgress = positions
+    ? Object.fromEntries(Object.entries(positions).map(([epId, p]) => [epId, progressFraction(p)]))
+    : undefined;
 
   // Handle player events to track watching state
   const handlePlayerStart = () => {
     setIsWatching(true);
-    setWatchStartTime(Date.now());
+    setResumeFrom(null);
+    viewTracker.onPlay();
+    playbackStats.onPlay();
   };
 
   const handlePlayerPause = () => {
     setIsWatching(false);
+    viewTracker.onPause();
+    playbackStats.onPause();
+    positionTracker.onPause();
   };
 
   const handlePlayerEnd = () => {
     setIsWatching(false);
-    if (watchStartTime) {
-      const watchDuration = Math.floor((Date.now() - watchStartTime) / 1000);
-      toast({
-        title: "Thanks for watching!",
-        description: `You watched for ${Math.floor(watchDuration / 60)}m ${watchDuration % 60}s and contributed ${totalViewsAdded} views`,
-      });
+    viewTracker.onEnded();
+    playbackStats.onEnded();
+    positionTracker.onEnded();
+    setResumeFrom(null);
+    if (nextEpisode) {
+      setShowUpNext(true);
+      return;
     }
+    const watched = viewTracker.getWatchedSeconds();
+    toast({
+      title: "Thanks for watching!",
+      description: `You watched for ${Math.floor(watched / 60)}m ${watched % 60}s`,
+    });
   };
 
-  // Reset watching state when changing videos
-  useEffect(() => {
-    setIsWatching(false);
-    setWatchStartTime(null);
-    setTotalViewsAdded(1); // Reset to initial view
-  }, [currentId, provider]);
-  
-  useEffect(() => {
-    if (series?.dailymotion_playlist_id) {
-      setProvider("dailymotion");
-      setCurrentId(undefined);
-      return;
-    }
-    if (series?.youtube_playlist_id) {
-      setProvider("youtube");
-      setCurrentId(undefined);
-      return;
-    }
-    // No playlist: pick first episode
-    const first = episodes?.[0];
-    if (first?.dailymotion_video_id) {
-      setProvider("dailymotion");
-      setCurrentId(first.dailymotion_video_id);
-    } else if (first?.youtube_video_id) {
-      setProvider("youtube");
-      setCurrentId(first.youtube_video_id);
-    }
-  }, [series?.dailymotion_playlist_id, series?.youtube_playlist_id, episodes]);
+  const playNext = () => {
+    if (!nextEpisode) return;
+    setShowUpNext(false);
+    setAutoplayLoad(true);
+    navigate(episodePath(series!, nextEpisode.id));
+  };
 
   const ratingAvg = series && series.rating_count > 0 ? (series.rating_sum / series.rating_count).toFixed(1) : "0.0";
 
@@ -140,42 +276,75 @@ const SeriesDetail = () => {
         <div className="text-sm text-muted-foreground">
           <span>{series?.views_count ?? 0} views</span>
           <span className="mx-2">•</span>
-          <span>{ratingAvg} ★</span>
+          <span>{ratingAvg} ★ ({series?.rating_count ?? 0} ratings)</span>
           {isWatching && (
             <>
               <span className="mx-2">•</span>
-              <span className="text-green-600">● Watching (+{totalViewsAdded} views)</span>
+              <span className="text-green-600">● Watching</span>
             </>
           )}
         </div>
         {series?.description && (
           <p className="mt-2 text-muted-foreground">{series.description}</p>
         )}
+        {series && (
+          <div className="mt-3">
+            <RatingWidget seriesId={series.id} onRated={refetch} />
+          </div>
+        )}
       </header>
 
-      <div className="mb-4 rounded-lg bg-muted/50 p-3 text-sm text-muted-foreground">
-        <p>📊 <strong>View System:</strong> Views increment every 5 seconds while watching. A 30-minute watch session = ~360 views!</p>
-      </div>
-
-      {provider === "dailymotion" ? (
-        <DailymotionPlayer
-          title={series?.title || "Series Player"}
-          playlistId={series?.dailymotion_playlist_id || undefined}
-          videoId={series?.dailymotion_playlist_id ? undefined : currentId}
-          onPlay={handlePlayerStart}
-          onPause={handlePlayerPause}
-          onEnded={handlePlayerEnd}
-        />
-      ) : (
-        <YouTubePlayer
-          title={series?.title || "Series Player"}
-          playlistId={series?.youtube_playlist_id || undefined}
-          videoId={series?.youtube_playlist_id ? undefined : currentId}
+      {(source || noPlayableSource) && (
+        <VideoPlayer
+          ref={playerRef}
+          source={noPlayableSource ? undefined : source}
+          autoplay={autoplayLoad}
+          title={currentEpisode?.title || series?.title || "Series Player"}
           onPlay={handlePlayerStart}
           onPause={handlePlayerPause}
           onEnded={handlePlayerEnd}
+          onTimeUpdate={positionTracker.onTimeUpdate}
+          onError={handlePlayerError}
+        >
+          {showUpNext && nextEpisode && (
+            <UpNextOverlay
+              title={nextEpisode.title}
+              label={episodeLabel(nextEpisode)}
+              countdown={autoplayNext ? AUTOPLAY_COUNTDOWN_SECONDS : undefined}
+              onPlayNow={playNext}
+              onCancel={() => setShowUpNext(false)}
+            />
+          )}
+        </VideoPlayer>
+      )}
+
+      <SourceSwitcher
+        mirrors={currentMirrors}
+        activeId={activeMirror?.id}
+        failedIds={failedMirrors}
+        onSelect={selectMirror}
+      />
+
+      {resumeFrom != null && (
+        <ResumePrompt position={resumeFrom} onResume={handleResume} onDismiss={() => setResumeFrom(null)} />
+      )}
+
+      {currentEpisode && (
+        <EpisodeNav
+          series={series!}
+          episode={currentEpisode}
+          previous={episodes?.[currentIndex - 1]}
+          next={nextEpisode}
         />
       )}
+      {currentEpisode && (
+        <div className="mt-2 flex items-center justify-end gap-2">
+          <Switch id="autoplay-next" checked={autoplayNext} onCheckedChange={setAutoplayNext} />
+          <Label htmlFor="autoplay-next" className="text-sm text-muted-foreground">
+            Autoplay next episode
+          </Label>
+        </div>
+      )}
 
       <div className="mt-8">
         {episodes && episodes.length > 0 ? (
@@ -188,51 +357,19 @@ const SeriesDetail = () => {
               
               <TabsContent value="episodes" className="mt-6">
             <h2 className="mb-3 text-xl font-semibold">Episodes</h2>
-            <ul className="grid gap-2">
-              {episodes.map((ep) => (
-                <li
-                  key={ep.id}
-                  role="button"
-                  tabIndex={0}
-                  onClick={() => {
-                    if (ep.dailymotion_video_id) {
-                      setProvider("dailymotion");
-                      setCurrentId(ep.dailymotion_video_id);
-                      setSelectedEpisodeId(ep.id);
-                    } else if (ep.youtube_video_id) {
-                      setProvider("youtube");
-                      setCurrentId(ep.youtube_video_id);
-                      setSelectedEpisodeId(ep.id);
-                    }
-                  }}
-                  onKeyDown={(e) => {
-                    if (e.key === 'Enter') {
-                      if (ep.dailymotion_video_id) {
-                        setProvider("dailymotion");
-                        setCurrentId(ep.dailymotion_video_id);
-                        setSelectedEpisodeId(ep.id);
-                      } else if (ep.youtube_video_id) {
-                        setProvider("youtube");
-                        setCurrentId(ep.youtube_video_id);
-                        setSelectedEpisodeId(ep.id);
-                      }
-                    }
-                  }}
-                  className={`rounded-md border p-3 transition-colors hover:bg-accent ${currentId && ((provider === 'dailymotion' && currentId === ep.dailymotion_video_id) || (provider === 'youtube' && currentId === ep.youtube_video_id)) ? "border-primary" : ""}`}
-                >
-                  <div className="flex items-center justify-between">
-                    <span className="font-medium">{ep.title}</span>
-                  </div>
-                </li>
-              ))}
-            </ul>
+            <EpisodeBrowser
+              episodes={episodes}
+              activeEpisodeId={currentEpisode?.id}
+              progress={episodeProgress}
+              onSelect={(ep) => navigate(episodePath(series!, ep.id))}
+            />
               </TabsContent>
               
               <TabsContent value="comments" className="mt-6">
                 <CommentsList
                   seriesId={id!}
-                  episodeId={selectedEpisodeId}
-                  title={selectedEpisodeId ? "Episode Comments" : "Series Comments"}
+                  episodeId={routeEpisode?.id}
+                  title={routeEpisode ? "Episode Comments" : "Series Comments"}
                 />
               </TabsContent>
             </Tabs>
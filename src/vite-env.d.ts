@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Dailymotion player configuration id; the SDK's default player is used when unset */
+  readonly VITE_DAILYMOTION_PLAYER_ID?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,86 @@
+/**
+ * Local stand-in for the Dailymotion and YouTube playlist APIs, used to
+ * exercise the playlist functions without network access or API quota.
+ *
+ *   deno run --allow-net supabase/functions/_dev/mock-providers.ts
+ *
+ * Then add to supabase/functions/.env and run `supabase functions serve`:
+ *
+ *   DAILYMOTION_API_URL=http://host.docker.internal:8787/dailymotion
+ *   YOUTUBE_API_URL=http://host.docker.internal:8787/youtube/v3
+ *   YOUTUBE_API_KEY=mock
+ *
+ * Every playlist ID returns MOCK_PLAYLIST_SIZE videos titled "Episode N"
+ * (default 120), so both pagination schemes are covered. Bump the size
+ * between runs to simulate new uploads. The playlist IDs `notfound` and
+ * `quota` answer like the real APIs do for a missing playlist and for an
+ * exhausted YouTube quota.
+ */
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+
+const PORT = Number(Deno.env.get("MOCK_PORT") ?? 8787);
+const SIZE = Number(Deno.env.get("MOCK_PLAYLIST_SIZE") ?? 120);
+
+const videos = (playlistId: string) =>
+  Array.from({ length: SIZE }, (_, i) => ({
+    id: `${playlistId}-v${i + 1}`,
+    title: `Episode ${i + 1}`,
+    description: `Mock video ${i + 1} of ${playlistId}`,
+    thumbnail_url: `https://picsum.photos/seed/${playlistId}-${i + 1}/320/180`,
+    duration: 1200 + i * 7,
+    created_time: 1704067200 + i * 604800, // weekly uploads from 2024-01-01
+    "owner.screenname": "Mock Channel",
+  }));
+
+const youtubeQuotaError = {
+  error: { code: 403, message: "The request cannot be completed because you have exceeded your quota.", errors: [{ reason: "quotaExceeded" }] },
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+
+serve((req) => {
+  const url = new URL(req.url);
+
+  const dm = url.pathname.match(/^\/dailymotion\/playlist\/([^/]+)\/videos$/);
+  if (dm) {
+    if (dm[1] === "notfound") return json({ error: { code: 404, message: "This playlist does not exist" } }, 404);
+    const page = Number(url.searchParams.get("page") ?? 1);
+    const limit = Number(url.searchParams.get("limit") ?? 10);
+    const all = videos(dm[1]);
+    const list = all.slice((page - 1) * limit, page * limit);
+    return json({ page, limit, list, has_more: page * limit < all.length });
+  }
+
+  if (url.pathname === "/youtube/v3/playlistItems") {
+    const playlistId = url.searchParams.get("playlistId");
+    if (!playlistId) return json({ error: { code: 400, message: "playlistId is required" } }, 400);
+    if (playlistId === "notfound") return json({ error: { code: 404, message: "playlistNotFound" } }, 404);
+    if (playlistId === "quota") return json(youtubeQuotaError, 403);
+    const max = Number(url.searchParams.get("maxResults") ?? 5);
+    const start = Number(url.searchParams.get("pageToken") || 0);
+    const all = videos(playlistId);
+    const items = all.slice(start, start + max).map((v) => ({
+      snippet: {
+        title: v.title,
+        description: v.description,
+        videoOwnerChannelTitle: v["owner.screenname"],
+        thumbnails: { medium: { url: v.thumbnail_url } },
+      },
+      contentDetails: { videoId: v.id, videoPublishedAt: new Date(v.created_time * 1000).toISOString() },
+    }));
+    const next = start + max < all.length ? String(start + max) : undefined;
+    return json({ items, nextPageToken: next });
+  }
+
+  if (url.pathname === "/youtube/v3/videos") {
+    const ids = (url.searchParams.get("id") ?? "").split(",").filter(Boolean);
+    const items = ids.map((id) => {
+      const seconds = 1200 + (Number(id.split("-v").pop()) - 1) * 7;
+      return { id, contentDetails: { duration: `PT${Math.floor(seconds / 60)}M${seconds % 60}S` } };
+    });
+    return json({ items });
+  }
+
+  return json({ error: "Not found" }, 404);
+}, { port: PORT });
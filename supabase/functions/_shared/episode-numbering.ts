@@ -0,0 +1,106 @@
+// Deno copy of src/lib/episode-numbering.ts for edge functions, which cannot
+// import from the app bundle. Keep both files in sync.
+export interface EpisodeNumbering {
+  season_number: number | null;
+  episode_number: number | null;
+}
+
+// Patterns that yield both a season and an episode, tried in order
+const SEASON_EPISODE_PATTERNS = [
+  /\bS(\d{1,3})\s*[.\-_ ]?\s*E[Pp]?\s*(\d{1,4})\b/i, // S02E05, S2 E5, S02.EP05
+  /\bSeason\s*(\d{1,3})\s*[,:\-–]?\s*(?:Episode|Ep\.?|E)\s*(\d{1,4})\b/i, // Season 2 Ep 3, Season 2 Episode 3
+  /\b(\d{1,2})x(\d{1,4})\b/i, // 2x05
+  /第\s*(\d{1,3})\s*季\s*第\s*(\d{1,4})\s*[集话話]/, // 第2季第12集
+];
+
+// Patterns that yield only an episode number, tried in order
+const EPISODE_PATTERNS = [
+  /第\s*(\d{1,4})\s*[集话話]/, // 第12集
+  /\b(?:Episode|Ep\.?|EP|E)\s*#?\s*(\d{1,4})\b/i, // Episode 12, EP 7, Ep.7, E12
+];
+
+const SEASON_PATTERNS = [
+  /\bSeason\s*(\d{1,3})\b/i,
+  /第\s*(\d{1,3})\s*季/,
+];
+
+const toNumber = (value: string | undefined) => {
+  if (value === undefined) return null;
+  const n = Number.parseInt(value, 10);
+  return Number.isNaN(n) ? null : n;
+};
+
+/**
+ * Applies a per-series override pattern. Named groups `season` and `episode` are
+ * preferred; otherwise a single capture group is the episode and two capture
+ * groups are season then episode. Returns null when the pattern is invalid or
+ * does not match so the built-in patterns can take over.
+ */
+const parseWithCustomPattern = (title: string, pattern: string): EpisodeNumbering | null => {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, "i");
+  } catch {
+    return null;
+  }
+  const match = title.match(regex);
+  if (!match) return null;
+  if (match.groups && ("episode" in match.groups || "season" in match.groups)) {
+    return {
+      season_number: toNumber(match.groups.season),
+      episode_number: toNumber(match.groups.episode),
+    };
+  }
+  if (match.length >= 3) {
+    return { season_number: toNumber(match[1]), episode_number: toNumber(match[2]) };
+  }
+  if (match.length === 2) {
+    return { season_number: null, episode_number: toNumber(match[1]) };
+  }
+  return null;
+};
+
+export const isValidTitlePattern = (pattern: string) => {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Detects season and episode numbers from a video title, e.g. "S02E05",
+ * "Episode 12", "EP 7", "第12集" or "Season 2 Ep 3".
+ */
+export const parseEpisodeNumbers = (title: string, customPattern?: string | null): EpisodeNumbering => {
+  if (customPattern) {
+    const custom = parseWithCustomPattern(title, customPattern);
+    if (custom) return custom;
+  }
+
+  for (const pattern of SEASON_EPISODE_PATTERNS) {
+    const match = title.match(pattern);
+    if (match) return { season_number: toNumber(match[1]), episode_number: toNumber(match[2]) };
+  }
+
+  let episode: number | null = null;
+  for (const pattern of EPISODE_PATTERNS) {
+    const match = title.match(pattern);
+    if (match) {
+      episode = toNumber(match[1]);
+      break;
+    }
+  }
+
+  let season: number | null = null;
+  for (const pattern of SEASON_PATTERNS) {
+    const match = title.match(pattern);
+    if (match) {
+      season = toNumber(match[1]);
+      break;
+    }
+  }
+
+  return { season_number: season, episode_number: episode };
+};
@@ -0,0 +1,57 @@
+import { getJson } from "./http.ts";
+import type { PlaylistProvider } from "./types.ts";
+
+// Can be pointed at a local mock (see ../../_dev/mock-providers.ts)
+const DAILYMOTION_API = Deno.env.get("DAILYMOTION_API_URL") ?? "https://api.dailymotion.com";
+const PAGE_SIZE = 100;
+
+interface DailymotionVideo {
+  id?: string;
+  title?: string;
+  description?: string | null;
+  thumbnail_url?: string | null;
+  duration?: number | null;
+  created_time?: number | null;
+  "owner.screenname"?: string | null;
+}
+
+interface DailymotionPage {
+  list?: DailymotionVideo[];
+  has_more?: boolean;
+  page?: number;
+}
+
+export const dailymotion: PlaylistProvider = {
+  name: "Dailymotion",
+
+  extractPlaylistId(input) {
+    const clean = input.trim();
+    const match = clean.match(/playlist\/([A-Za-z0-9]+)/i);
+    if (match) return match[1];
+    return /^[A-Za-z0-9]+$/.test(clean) ? clean : null;
+  },
+
+  async fetchPage(playlistId, cursor) {
+    const page = cursor ? Number(cursor) : 1;
+    const url = new URL(`${DAILYMOTION_API}/playlist/${encodeURIComponent(playlistId)}/videos`);
+    url.searchParams.set("fields", "id,title,description,thumbnail_url,duration,created_time,owner.screenname");
+    url.searchParams.set("limit", String(PAGE_SIZE));
+    url.searchParams.set("page", String(page));
+
+    const data = await getJson<DailymotionPage>(url, this.name);
+    return {
+      items: (data.list ?? [])
+        .filter((v) => v.id)
+        .map((v) => ({
+          id: v.id!,
+          title: v.title ?? "Untitled",
+          description: v.description || null,
+          thumbnail_url: v.thumbnail_url || null,
+          duration: v.duration ?? null,
+          published_at: v.created_time ? new Date(v.created_time * 1000).toISOString() : null,
+          channel: v["owner.screenname"] || null,
+        })),
+      nextCursor: data.has_more ? String(page + 1) : null,
+    };
+  },
+};
@@ -0,0 +1,46 @@
+import { ProviderError } from "./types.ts";
+
+const MAX_ATTEMPTS = 3;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * GETs a provider API URL and parses the JSON body. 429 and 5xx responses are
+ * retried with backoff (honouring Retry-After); other failures are passed to
+ * `classify` so each provider can map its own error payloads, e.g. YouTube's
+ * quotaExceeded reason.
+ */
+export async function getJson<T>(
+  url: URL,
+  provider: string,
+  classify?: (status: number, body: string) => ProviderError | null,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    let res: Response;
+    try {
+      res = await fetch(url.toString());
+    } catch (err) {
+      if (attempt < MAX_ATTEMPTS) {
+        await sleep(500 * attempt);
+        continue;
+      }
+      throw new ProviderError(`${provider} is unreachable: ${String(err)}`, "upstream_error", 502);
+    }
+    if (res.ok) return await res.json() as T;
+
+    const body = await res.text();
+    const retryable = res.status === 429 || res.status >= 500;
+    if (retryable && attempt < MAX_ATTEMPTS) {
+      const retryAfter = Number(res.headers.get("retry-after"));
+      await sleep(Number.isFinite(retryAfter) && retryAfter > 0 ? Math.min(retryAfter, 10) * 1000 : 500 * attempt);
+      continue;
+    }
+
+    const classified = classify?.(res.status, body);
+    if (classified) throw classified;
+    if (res.status === 404) throw new ProviderError(`${provider} playlist not found`, "not_found", 404);
+    if (res.status === 429) throw new ProviderError(`${provider} rate limit reached, try again later`, "rate_limited", 429);
+    if (res.status === 400) throw new ProviderError(body || `${provider} rejected the request`, "invalid_request", 400);
+    throw new ProviderError(body || `${provider} API error ${res.status}`, "upstream_error", 502);
+  }
+}
@@ -0,0 +1,51 @@
+import { dailymotion } from "./dailymotion.ts";
+import { youtube } from "./youtube.ts";
+import { ProviderError, type PlaylistItem, type PlaylistProvider } from "./types.ts";
+
+export * from "./types.ts";
+
+export const providers: Record<string, PlaylistProvider> = {
+  dailymotion,
+  youtube,
+};
+
+export const DEFAULT_MAX_ITEMS = 5000;
+
+export interface PlaylistResult {
+  playlist_id: string;
+  items: PlaylistItem[];
+  /** True when the playlist has more than `maxItems` videos */
+  truncated: boolean;
+}
+
+export function getProvider(name: string): PlaylistProvider {
+  const provider = providers[name];
+  if (!provider) {
+    throw new ProviderError(`Unsupported provider '${name}'. Use one of: ${Object.keys(providers).join(", ")}`, "invalid_request", 400);
+  }
+  return provider;
+}
+
+/** Follows a provider's pagination until the playlist or `maxItems` is exhausted. */
+export async function fetchPlaylist(providerName: string, input: string, maxItems = DEFAULT_MAX_ITEMS): Promise<PlaylistResult> {
+  const provider = getProvider(providerName);
+  const playlistId = provider.extractPlaylistId(input);
+  if (!playlistId) throw new ProviderError(`Invalid ${provider.name} playlist URL or ID`, "invalid_request", 400);
+
+  const items: PlaylistItem[] = [];
+  const seen = new Set<string>();
+  let cursor: string | null = null;
+  do {
+    const page = await provider.fetchPage(playlistId, cursor);
+    for (const item of page.items) {
+      // Playlists may list the same video twice; keep the first position
+      if (!seen.has(item.id)) {
+        seen.add(item.id);
+        items.push(item);
+      }
+    }
+    cursor = page.nextCursor;
+  } while (cursor && items.length < maxItems);
+
+  return { playlist_id: playlistId, items: items.slice(0, maxItems), truncated: !!cursor || items.length > maxItems };
+}
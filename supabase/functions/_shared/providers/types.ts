@@ -0,0 +1,46 @@
+/** A playlist video, normalized across providers. */
+export interface PlaylistItem {
+  id: string;
+  title: string;
+  description: string | null;
+  thumbnail_url: string | null;
+  /** Length in seconds, when the provider reports it */
+  duration: number | null;
+  /** Original upload date as an ISO string */
+  published_at: string | null;
+  /** Name of the uploading channel or account */
+  channel: string | null;
+}
+
+export interface PlaylistPage {
+  items: PlaylistItem[];
+  /** Opaque cursor for the next page, or null on the last page */
+  nextCursor: string | null;
+}
+
+/**
+ * A video host that exposes public playlists. Adding a provider means
+ * implementing this interface and registering it in ./index.ts.
+ */
+export interface PlaylistProvider {
+  name: string;
+  /** Accepts whatever an admin pasted (URL or bare ID); null when unusable */
+  extractPlaylistId(input: string): string | null;
+  fetchPage(playlistId: string, cursor: string | null): Promise<PlaylistPage>;
+}
+
+export type ProviderErrorCode =
+  | "invalid_request"
+  | "not_found"
+  | "quota_exceeded"
+  | "rate_limited"
+  | "misconfigured"
+  | "upstream_error";
+
+/** Raised by providers; `status` is the HTTP status to report to the caller. */
+export class ProviderError extends Error {
+  constructor(message: string, public code: ProviderErrorCode, public status: number) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
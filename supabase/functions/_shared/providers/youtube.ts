@@ -0,0 +1,104 @@
+import { getJson } from "./http.ts";
+import { ProviderError, type PlaylistProvider } from "./types.ts";
+
+// Can be pointed at a local mock (see ../../_dev/mock-providers.ts)
+const YT_API = Deno.env.get("YOUTUBE_API_URL") ?? "https://www.googleapis.com/youtube/v3";
+
+interface YouTubePlaylistPage {
+  items?: {
+    contentDetails?: { videoId?: string; videoPublishedAt?: string };
+    snippet?: {
+      title?: string;
+      description?: string;
+      videoOwnerChannelTitle?: string;
+      resourceId?: { videoId?: string };
+      thumbnails?: Record<string, { url?: string } | undefined>;
+    };
+  }[];
+  nextPageToken?: string;
+}
+
+interface YouTubeVideosPage {
+  items?: { id: string; contentDetails?: { duration?: string } }[];
+}
+
+const QUOTA_REASONS = ["quotaExceeded", "dailyLimitExceeded", "rateLimitExceeded"];
+
+// YouTube reports quota exhaustion as a 403 with a reason code in the body
+const classifyYouTubeError = (status: number, body: string) => {
+  if (status === 403 && QUOTA_REASONS.some((reason) => body.includes(reason))) {
+    return new ProviderError("YouTube API quota exceeded, try again after the daily reset", "quota_exceeded", 429);
+  }
+  if (status === 403 || status === 401) {
+    return new ProviderError("YouTube API key was rejected", "misconfigured", 500);
+  }
+  return null;
+};
+
+/** Converts an ISO 8601 duration such as PT1H2M3S to seconds. */
+const parseIsoDuration = (value: string | undefined) => {
+  const match = value?.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, d, h, m, s] = match.map((part) => Number(part ?? 0));
+  return d * 86400 + h * 3600 + m * 60 + s;
+};
+
+const apiKey = () => {
+  const key = Deno.env.get("YOUTUBE_API_KEY");
+  if (!key) throw new ProviderError("Missing YOUTUBE_API_KEY secret", "misconfigured", 500);
+  return key;
+};
+
+export const youtube: PlaylistProvider = {
+  name: "YouTube",
+
+  extractPlaylistId(input) {
+    try {
+      const list = new URL(input).searchParams.get("list");
+      if (list) return list;
+    } catch {
+      // not a URL; assume it's an ID
+    }
+    const clean = input.trim();
+    return /^[A-Za-z0-9_-]{6,}$/.test(clean) ? clean : null;
+  },
+
+  async fetchPage(playlistId, cursor) {
+    const key = apiKey();
+    const url = new URL(`${YT_API}/playlistItems`);
+    url.searchParams.set("part", "snippet,contentDetails");
+    url.searchParams.set("maxResults", "50");
+    url.searchParams.set("playlistId", playlistId);
+    url.searchParams.set("key", key);
+    if (cursor) url.searchParams.set("pageToken", cursor);
+    const page = await getJson<YouTubePlaylistPage>(url, this.name, classifyYouTubeError);
+
+    const entries = (page.items ?? [])
+      .map((it) => ({ it, id: it.contentDetails?.videoId || it.snippet?.resourceId?.videoId }))
+      .filter((entry): entry is typeof entry & { id: string } => !!entry.id);
+
+    // Durations are only available from the videos endpoint (one extra quota unit per page)
+    const durations = new Map<string, number | null>();
+    if (entries.length > 0) {
+      const videosUrl = new URL(`${YT_API}/videos`);
+      videosUrl.searchParams.set("part", "contentDetails");
+      videosUrl.searchParams.set("id", entries.map((e) => e.id).join(","));
+      videosUrl.searchParams.set("key", key);
+      const videos = await getJson<YouTubeVideosPage>(videosUrl, this.name, classifyYouTubeError);
+      for (const v of videos.items ?? []) durations.set(v.id, parseIsoDuration(v.contentDetails?.duration));
+    }
+
+    return {
+      items: entries.map(({ it, id }) => ({
+        id,
+        title: it.snippet?.title ?? "Untitled",
+        description: it.snippet?.description || null,
+        thumbnail_url: it.snippet?.thumbnails?.medium?.url || it.snippet?.thumbnails?.default?.url || null,
+        duration: durations.get(id) ?? null,
+        published_at: it.contentDetails?.videoPublishedAt ?? null,
+        channel: it.snippet?.videoOwnerChannelTitle ?? null,
+      })),
+      nextCursor: page.nextPageToken ?? null,
+    };
+  },
+};
@@ -0,0 +1,182 @@
+/**
+ * Imports new playlist videos for every series with `auto_sync` enabled and
+ * records the outcome in `playlist_sync_runs`.
+ *
+ * Callers:
+ * - pg_cron, with an `x-sync-secret` header matching PLAYLIST_SYNC_SECRET
+ *   (see migration 20250815150000_playlist_auto_sync.sql)
+ * - the admin panel, with the signed-in owner/editor's JWT; an optional
+ *   `{ "series_id": "..." }` body syncs one series even if auto-sync is off
+ *
+ * Secrets: SUPABASE_URL, SUPABASE_ANON_KEY, SUPABASE_SERVICE_ROLE_KEY,
+ * PLAYLIST_SYNC_SECRET, YOUTUBE_API_KEY. For local testing set
+ * DAILYMOTION_API_URL and YOUTUBE_API_URL to ../_dev/mock-providers.ts.
+ */
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { parseEpisodeNumbers } from "../_shared/episode-numbering.ts";
+import { fetchPlaylist } from "../_shared/providers/index.ts";
+
+type Provider = "dailymotion" | "youtube";
+
+interface SeriesRow {
+  id: string;
+  title: string;
+  dailymotion_playlist_id: string | null;
+  youtube_playlist_id: string | null;
+  episode_title_pattern: string | null;
+}
+
+interface SyncResult {
+  series_id: string;
+  series_title: string;
+  provider: Provider;
+  fetched: number;
+  added: number;
+  error?: string;
+}
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-sync-secret",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "content-type": "application/json" } });
+
+const VIDEO_COLUMN: Record<Provider, string> = {
+  dailymotion: "dailymotion_video_id",
+  youtube: "youtube_video_id",
+};
+
+// PostgREST errors are plain objects, not Error instances
+const errorMessage = (err: unknown) =>
+  err instanceof Error ? err.message : (err as { message?: string })?.message ?? String(err);
+
+async function syncPlaylist(admin: ReturnType<typeof createClient>, series: SeriesRow, provider: Provider, playlist: string): Promise<SyncResult> {
+  const result: SyncResult = { series_id: series.id, series_title: series.title, provider, fetched: 0, added: 0 };
+  try {
+    const { items: videos } = await fetchPlaylist(provider, playlist);
+    result.fetched = videos.length;
+
+    const column = VIDEO_COLUMN[provider];
+    const { data: existing, error: existingError } = await admin
+      .from("episodes")
+      .select(column)
+      .eq("series_id", series.id)
+      .not(column, "is", null);
+    if (existingError) throw existingError;
+    const known = new Set((existing ?? []).map((ep: Record<string, string>) => ep[column]));
+
+    const rows = videos
+      .filter((video) => !known.has(video.id))
+      .map((video) => ({
+        series_id: series.id,
+        title: video.title,
+        description: video.description,
+        [column]: video.id,
+        thumbnail_url: video.thumbnail_url,
+        duration_seconds: video.duration,
+        uploaded_at: video.published_at,
+        provider_channel: video.channel,
+        ...parseEpisodeNumbers(video.title, series.episode_title_pattern),
+      }));
+    if (rows.length === 0) return result;
+
+    // The unique constraint makes concurrent runs safe: duplicates are skipped
+    const { data: inserted, error: insertError } = await admin
+      .from("episodes")
+      .upsert(rows, { onConflict: `series_id,${column}`, ignoreDuplicates: true })
+      .select("id");
+    if (insertError) throw insertError;
+    result.added = inserted?.length ?? 0;
+  } catch (err) {
+    result.error = errorMessage(err);
+  }
+  return result;
+}
+
+/** Resolves who is calling: the scheduler via shared secret, or staff via JWT. */
+async function authorize(req: Request): Promise<{ trigger: "schedule" | "manual"; userId: string | null } | null> {
+  const secret = Deno.env.get("PLAYLIST_SYNC_SECRET");
+  if (secret && req.headers.get("x-sync-secret") === secret) {
+    return { trigger: "schedule", userId: null };
+  }
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+  const caller = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: authHeader } },
+    auth: { persistSession: false },
+  });
+  const { data: userData } = await caller.auth.getUser();
+  if (!userData?.user) return null;
+  const { data: allowed } = await caller.rpc("has_admin_role", { p_roles: ["owner", "editor"] });
+  return allowed ? { trigger: "manual", userId: userData.user.id } : null;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json({ error: "Use POST" }, 405);
+
+  const caller = await authorize(req);
+  if (!caller) return json({ error: "Unauthorized" }, 401);
+
+  const body = await req.json().catch(() => ({}));
+  const seriesId = body?.series_id as string | undefined;
+
+  const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+    auth: { persistSession: false },
+  });
+
+  const { data: run, error: runError } = await admin
+    .from("playlist_sync_runs")
+    .insert({ trigger: caller.trigger, triggered_by: caller.userId })
+    .select("id")
+    .single();
+  if (runError) return json({ error: runError.message }, 500);
+
+  const results: SyncResult[] = [];
+  let seriesChecked = 0;
+  let fatal: string | null = null;
+  try {
+    let query = admin
+      .from("series")
+      .select("id,title,dailymotion_playlist_id,youtube_playlist_id,episode_title_pattern");
+    query = seriesId ? query.eq("id", seriesId) : query.eq("auto_sync", true);
+    const { data: seriesList, error: seriesError } = await query;
+    if (seriesError) throw seriesError;
+
+    // Sequential on purpose: keeps provider quota usage predictable
+    for (const series of (seriesList ?? []) as SeriesRow[]) {
+      seriesChecked += 1;
+      if (series.dailymotion_playlist_id) {
+        results.push(await syncPlaylist(admin, series, "dailymotion", series.dailymotion_playlist_id));
+      }
+      if (series.youtube_playlist_id) {
+        results.push(await syncPlaylist(admin, series, "youtube", series.youtube_playlist_id));
+      }
+    }
+  } catch (err) {
+    fatal = errorMessage(err);
+  }
+
+  const failed = results.filter((r) => r.error).length;
+  const status = fatal || (results.length > 0 && failed === results.length)
+    ? "failed"
+    : failed > 0 ? "partial" : "succeeded";
+  const episodesAdded = results.reduce((sum, r) => sum + r.added, 0);
+
+  await admin
+    .from("playlist_sync_runs")
+    .update({
+      status,
+      series_checked: seriesChecked,
+      episodes_added: episodesAdded,
+      results,
+      error: fatal,
+      finished_at: new Date().toISOString(),
+    })
+    .eq("id", run.id);
+
+  return json({ run_id: run.id, status, series_checked: seriesChecked, episodes_added: episodesAdded, results }, fatal ? 500 : 200);
+});
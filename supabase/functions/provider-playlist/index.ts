@@ -0,0 +1,42 @@
+/**
+ * Fetches a public playlist from any registered provider and returns its
+ * videos in one normalized shape.
+ *
+ *   POST { "provider": "dailymotion" | "youtube", "playlist": "<url or id>", "max_items"?: number }
+ *   200  { "provider", "playlist_id", "items": PlaylistItem[], "truncated" }
+ *   4xx/5xx { "error": "...", "code": ProviderErrorCode }
+ *
+ * Secrets: YOUTUBE_API_KEY. Provider base URLs can be overridden with
+ * DAILYMOTION_API_URL and YOUTUBE_API_URL (see ../_dev/mock-providers.ts).
+ */
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { DEFAULT_MAX_ITEMS, fetchPlaylist, ProviderError } from "../_shared/providers/index.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "content-type": "application/json" } });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json({ error: "Use POST", code: "invalid_request" }, 405);
+
+  const body = await req.json().catch(() => ({}));
+  const provider = body?.provider as string | undefined;
+  const playlist = body?.playlist as string | undefined;
+  if (!provider || !playlist) {
+    return json({ error: "Missing 'provider' or 'playlist' in body", code: "invalid_request" }, 400);
+  }
+  const maxItems = Math.min(Math.max(Number(body?.max_items) || DEFAULT_MAX_ITEMS, 1), DEFAULT_MAX_ITEMS);
+
+  try {
+    const result = await fetchPlaylist(provider, playlist, maxItems);
+    return json({ provider, ...result });
+  } catch (err) {
+    if (err instanceof ProviderError) return json({ error: err.message, code: err.code }, err.status);
+    return json({ error: String(err), code: "upstream_error" }, 500);
+  }
+});
@@ -0,0 +1,357 @@
+/*
+  # Replace the shared admin code with Supabase Auth roles
+
+  1. New Enum
+    - `admin_role` enum with 'owner', 'editor' and 'moderator' values
+
+  2. New Tables
+    - `admin_roles`
+      - `user_id` (uuid, primary key, references auth.users)
+      - `role` (admin_role)
+      - `created_at` (timestamp)
+      - `created_by` (uuid, the owner who granted the role)
+
+  3. Functions
+    - `has_admin_role` / `require_admin_role` check `auth.uid()` against `admin_roles`
+    - All `admin_*` RPCs are recreated without the `admin_code` parameter
+    - `admin_list_roles`, `admin_grant_role`, `admin_revoke_role` for owners
+
+  4. Security
+    - Admin RPCs are only executable by the `authenticated` role
+    - Owners and editors can write `series` and `episodes` through RLS
+    - Staff can delete comments through RLS
+
+  The first owner has to be bootstrapped once from the SQL editor:
+    INSERT INTO public.admin_roles (user_id, role)
+    SELECT id, 'owner' FROM auth.users WHERE email = '<owner email>';
+*/
+
+-- Create admin role enum
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'admin_role') THEN
+    CREATE TYPE public.admin_role AS ENUM ('owner', 'editor', 'moderator');
+  END IF;
+END $$;
+
+-- Create admin_roles table
+CREATE TABLE IF NOT EXISTS public.admin_roles (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.admin_role NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_roles_role ON public.admin_roles (role);
+
+ALTER TABLE public.admin_roles ENABLE ROW LEVEL SECURITY;
+
+-- Role helpers
+CREATE OR REPLACE FUNCTION public.has_admin_role(
+  p_roles public.admin_role[] DEFAULT ARRAY['owner', 'editor', 'moderator']::public.admin_role[]
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.admin_roles
+    WHERE user_id = auth.uid() AND role = ANY (p_roles)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.require_admin_role(
+  p_roles public.admin_role[] DEFAULT ARRAY['owner', 'editor']::public.admin_role[]
+)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.has_admin_role(p_roles) THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+END;
+$$;
+
+-- RLS Policies for admin_roles
+CREATE POLICY "Users can read their own role" ON public.admin_roles
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Owners can read all roles" ON public.admin_roles
+  FOR SELECT TO authenticated USING (public.has_admin_role(ARRAY['owner']::public.admin_role[]));
+
+-- RLS Policies for content tables
+CREATE POLICY "Editors can insert series" ON public.series
+  FOR INSERT TO authenticated WITH CHECK (public.has_admin_role(ARRAY['owner', 'editor']::public.admin_role[]));
+CREATE POLICY "Editors can update series" ON public.series
+  FOR UPDATE TO authenticated USING (public.has_admin_role(ARRAY['owner', 'editor']::public.admin_role[]));
+CREATE POLICY "Editors can delete series" ON public.series
+  FOR DELETE TO authenticated USING (public.has_admin_role(ARRAY['owner', 'editor']::public.admin_role[]));
+CREATE POLICY "Editors can insert episodes" ON public.episodes
+  FOR INSERT TO authenticated WITH CHECK (public.has_admin_role(ARRAY['owner', 'editor']::public.admin_role[]));
+CREATE POLICY "Editors can update episodes" ON public.episodes
+  FOR UPDATE TO authenticated USING (public.has_admin_role(ARRAY['owner', 'editor']::public.admin_role[]));
+CREATE POLICY "Editors can delete episodes" ON public.episodes
+  FOR DELETE TO authenticated USING (public.has_admin_role(ARRAY['owner', 'editor']::public.admin_role[]));
+CREATE POLICY "Staff can delete comments" ON public.comments
+  FOR DELETE TO authenticated USING (public.has_admin_role());
+
+-- Drop every admin_code based signature
+DROP FUNCTION IF EXISTS public.admin_create_series(text, text, text, text, text, text, boolean);
+DROP FUNCTION IF EXISTS public.admin_create_series(text, text, text, text, text, text, boolean, public.series_category);
+DROP FUNCTION IF EXISTS public.admin_create_series(text, text, text, text, text, text, boolean, text);
+DROP FUNCTION IF EXISTS public.admin_create_series(text, text, text, text, text, text, boolean, public.series_category, text);
+DROP FUNCTION IF EXISTS public.admin_create_episode(text, uuid, text, text, text, integer, integer, timestamptz);
+DROP FUNCTION IF EXISTS public.admin_create_episode(text, uuid, text, text, text, integer, integer, timestamptz, text);
+DROP FUNCTION IF EXISTS public.admin_delete_series(text, uuid);
+DROP FUNCTION IF EXISTS public.admin_delete_episode(text, uuid);
+DROP FUNCTION IF EXISTS public.admin_update_series_status(text, uuid, public.series_status);
+
+-- Admin-secured RPC to create a series
+CREATE OR REPLACE FUNCTION public.admin_create_series(
+  title text,
+  description text DEFAULT NULL,
+  cover_image_url text DEFAULT NULL,
+  dailymotion_playlist_id text DEFAULT NULL,
+  slug text DEFAULT NULL,
+  is_published boolean DEFAULT false,
+  category public.series_category DEFAULT NULL,
+  youtube_playlist_id text DEFAULT NULL
+)
+RETURNS public.series
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_row public.series;
+BEGIN
+  PERFORM public.require_admin_role(ARRAY['owner', 'editor']::public.admin_role[]);
+
+  INSERT INTO public.series (
+    title,
+    description,
+    cover_image_url,
+    dailymotion_playlist_id,
+    youtube_playlist_id,
+    slug,
+    is_published,
+    category
+  ) VALUES (
+    title,
+    description,
+    cover_image_url,
+    dailymotion_playlist_id,
+    youtube_playlist_id,
+    slug,
+    COALESCE(is_published, false),
+    category
+  )
+  RETURNING * INTO new_row;
+
+  RETURN new_row;
+END;
+$$;
+
+-- Admin-secured RPC to create an episode
+CREATE OR REPLACE FUNCTION public.admin_create_episode(
+  series_id uuid,
+  title text,
+  dailymotion_video_id text,
+  description text DEFAULT NULL,
+  season_number integer DEFAULT NULL,
+  episode_number integer DEFAULT NULL,
+  published_at timestamptz DEFAULT NULL,
+  youtube_video_id text DEFAULT NULL
+)
+RETURNS public.episodes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_row public.episodes;
+BEGIN
+  PERFORM public.require_admin_role(ARRAY['owner', 'editor']::public.admin_role[]);
+
+  INSERT INTO public.episodes (
+    series_id,
+    title,
+    dailymotion_video_id,
+    youtube_video_id,
+    description,
+    season_number,
+    episode_number,
+    published_at
+  ) VALUES (
+    series_id,
+    title,
+    dailymotion_video_id,
+    youtube_video_id,
+    description,
+    season_number,
+    episode_number,
+    published_at
+  )
+  RETURNING * INTO new_row;
+
+  RETURN new_row;
+END;
+$$;
+
+-- Admin-secured RPC to delete a series (and its episodes)
+CREATE OR REPLACE FUNCTION public.admin_delete_series(
+  p_series_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.require_admin_role(ARRAY['owner', 'editor']::public.admin_role[]);
+
+  DELETE FROM public.episodes WHERE series_id = p_series_id;
+  DELETE FROM public.series WHERE id = p_series_id;
+END;
+$$;
+
+-- Admin-secured RPC to delete an episode
+CREATE OR REPLACE FUNCTION public.admin_delete_episode(
+  p_episode_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.require_admin_role(ARRAY['owner', 'editor']::public.admin_role[]);
+
+  DELETE FROM public.episodes WHERE id = p_episode_id;
+END;
+$$;
+
+-- Admin-secured RPC to update series status
+CREATE OR REPLACE FUNCTION public.admin_update_series_status(
+  p_series_id uuid,
+  p_status public.series_status
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.require_admin_role(ARRAY['owner', 'editor']::public.admin_role[]);
+
+  UPDATE public.series
+  SET status = p_status,
+      updated_at = now()
+  WHERE id = p_series_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Series not found';
+  END IF;
+END;
+$$;
+
+-- Owner-only RPC to list staff with their emails
+CREATE OR REPLACE FUNCTION public.admin_list_roles()
+RETURNS TABLE (
+  user_id uuid,
+  email text,
+  role public.admin_role,
+  created_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.require_admin_role(ARRAY['owner']::public.admin_role[]);
+
+  RETURN QUERY
+  SELECT r.user_id, u.email::text, r.role, r.created_at
+  FROM public.admin_roles r
+  JOIN auth.users u ON u.id = r.user_id
+  ORDER BY r.created_at;
+END;
+$$;
+
+-- Owner-only RPC to grant (or change) a role by email
+CREATE OR REPLACE FUNCTION public.admin_grant_role(
+  p_email text,
+  p_role public.admin_role
+)
+RETURNS public.admin_roles
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_id uuid;
+  new_row public.admin_roles;
+BEGIN
+  PERFORM public.require_admin_role(ARRAY['owner']::public.admin_role[]);
+
+  SELECT id INTO target_id FROM auth.users WHERE lower(email) = lower(trim(p_email));
+  IF target_id IS NULL THEN
+    RAISE EXCEPTION 'No user with that email has signed up yet';
+  END IF;
+
+  INSERT INTO public.admin_roles (user_id, role, created_by)
+  VALUES (target_id, p_role, auth.uid())
+  ON CONFLICT (user_id) DO UPDATE
+    SET role = EXCLUDED.role,
+        created_by = EXCLUDED.created_by
+  RETURNING * INTO new_row;
+
+  RETURN new_row;
+END;
+$$;
+
+-- Owner-only RPC to revoke a role
+CREATE OR REPLACE FUNCTION public.admin_revoke_role(
+  p_user_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.require_admin_role(ARRAY['owner']::public.admin_role[]);
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Owners cannot revoke their own role';
+  END IF;
+
+  DELETE FROM public.admin_roles WHERE user_id = p_user_id;
+END;
+$$;
+
+-- Grant execute permissions to signed-in users only
+REVOKE EXECUTE ON FUNCTION public.admin_create_series(text, text, text, text, text, boolean, public.series_category, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.admin_create_episode(uuid, text, text, text, integer, integer, timestamptz, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.admin_delete_series(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.admin_delete_episode(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.admin_update_series_status(uuid, public.series_status) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.admin_list_roles() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.admin_grant_role(text, public.admin_role) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.admin_revoke_role(uuid) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.has_admin_role(public.admin_role[]) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.require_admin_role(public.admin_role[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_create_series(text, text, text, text, text, boolean, public.series_category, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_create_episode(uuid, text, text, text, integer, integer, timestamptz, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_delete_series(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_delete_episode(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_update_series_status(uuid, public.series_status) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_list_roles() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_grant_role(text, public.admin_role) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_revoke_role(uuid) TO authenticated;
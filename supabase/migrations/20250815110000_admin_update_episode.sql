@@ -0,0 +1,80 @@
+/*
+  # Add admin_update_episode RPC
+
+  1. Functions
+    - `admin_update_episode` applies a partial update to an episode. Only the keys
+      present in `p_changes` are written, matching `admin_update_series`.
+
+  2. Security
+    - Requires the owner or editor role
+    - Executable by the `authenticated` role only
+*/
+
+CREATE OR REPLACE FUNCTION public.admin_update_episode(
+  p_episode_id uuid,
+  p_changes jsonb
+)
+RETURNS public.episodes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  allowed_keys text[] := ARRAY[
+    'title',
+    'description',
+    'season_number',
+    'episode_number',
+    'dailymotion_video_id',
+    'youtube_video_id',
+    'published_at'
+  ];
+  unknown_key text;
+  updated_row public.episodes;
+BEGIN
+  PERFORM public.require_admin_role(ARRAY['owner', 'editor']::public.admin_role[]);
+
+  IF p_changes IS NULL OR jsonb_typeof(p_changes) <> 'object' THEN
+    RAISE EXCEPTION 'Changes must be a JSON object';
+  END IF;
+
+  SELECT key INTO unknown_key
+  FROM jsonb_object_keys(p_changes) AS key
+  WHERE key <> ALL (allowed_keys)
+  LIMIT 1;
+  IF unknown_key IS NOT NULL THEN
+    RAISE EXCEPTION 'Unknown episode field: %', unknown_key;
+  END IF;
+
+  IF p_changes ? 'title' AND length(trim(coalesce(p_changes->>'title', ''))) = 0 THEN
+    RAISE EXCEPTION 'Title is required';
+  END IF;
+
+  IF (p_changes ? 'season_number' AND (p_changes->>'season_number')::integer < 0)
+    OR (p_changes ? 'episode_number' AND (p_changes->>'episode_number')::integer < 0) THEN
+    RAISE EXCEPTION 'Season and episode numbers cannot be negative';
+  END IF;
+
+  UPDATE public.episodes
+  SET title = CASE WHEN p_changes ? 'title' THEN trim(p_changes->>'title') ELSE title END,
+      description = CASE WHEN p_changes ? 'description' THEN p_changes->>'description' ELSE description END,
+      season_number = CASE WHEN p_changes ? 'season_number' THEN (p_changes->>'season_number')::integer ELSE season_number END,
+      episode_number = CASE WHEN p_changes ? 'episode_number' THEN (p_changes->>'episode_number')::integer ELSE episode_number END,
+      dailymotion_video_id = CASE WHEN p_changes ? 'dailymotion_video_id' THEN p_changes->>'dailymotion_video_id' ELSE dailymotion_video_id END,
+      youtube_video_id = CASE WHEN p_changes ? 'youtube_video_id' THEN p_changes->>'youtube_video_id' ELSE youtube_video_id END,
+      published_at = CASE WHEN p_changes ? 'published_at' THEN (p_changes->>'published_at')::timestamptz ELSE published_at END,
+      updated_at = now()
+  WHERE id = p_episode_id
+  RETURNING * INTO updated_row;
+
+  IF updated_row.id IS NULL THEN
+    RAISE EXCEPTION 'Episode not found';
+  END IF;
+
+  RETURN updated_row;
+END;
+$$;
+
+-- Grant execute permissions
+REVOKE EXECUTE ON FUNCTION public.admin_update_episode(uuid, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.admin_update_episode(uuid, jsonb) TO authenticated;
@@ -0,0 +1,80 @@
+/*
+  # Add admin_reorder_episodes RPC
+
+  1. Functions
+    - `admin_reorder_episodes` rewrites `season_number` / `episode_number` for every
+      episode of a series in one statement. `p_order` is a JSON array of
+      `{ "id": uuid, "season_number": int | null }` in playback order; episode
+      numbers restart at 1 for each season in the order given.
+
+  2. Security
+    - Requires the owner or editor role
+    - Executable by the `authenticated` role only
+*/
+
+CREATE OR REPLACE FUNCTION public.admin_reorder_episodes(
+  p_series_id uuid,
+  p_order jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  expected_count integer;
+  given_count integer;
+  matched_count integer;
+  updated_count integer;
+BEGIN
+  PERFORM public.require_admin_role(ARRAY['owner', 'editor']::public.admin_role[]);
+
+  IF p_order IS NULL OR jsonb_typeof(p_order) <> 'array' THEN
+    RAISE EXCEPTION 'Order must be a JSON array';
+  END IF;
+
+  SELECT count(*) INTO expected_count FROM public.episodes WHERE series_id = p_series_id;
+  given_count := jsonb_array_length(p_order);
+
+  SELECT count(DISTINCT e.id) INTO matched_count
+  FROM jsonb_array_elements(p_order) AS item
+  JOIN public.episodes e ON e.id = (item->>'id')::uuid AND e.series_id = p_series_id;
+
+  -- Every episode of the series must appear exactly once so the numbering stays consistent
+  IF given_count <> expected_count OR matched_count <> expected_count THEN
+    RAISE EXCEPTION 'Order must list every episode of the series exactly once (expected %, got %)', expected_count, given_count;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_order) AS item
+    WHERE (item->>'season_number')::integer < 0
+  ) THEN
+    RAISE EXCEPTION 'Season numbers cannot be negative';
+  END IF;
+
+  WITH ordered AS (
+    SELECT
+      (item->>'id')::uuid AS id,
+      (item->>'season_number')::integer AS season_number,
+      row_number() OVER (
+        PARTITION BY (item->>'season_number')::integer
+        ORDER BY position
+      )::integer AS episode_number
+    FROM jsonb_array_elements(p_order) WITH ORDINALITY AS t(item, position)
+  )
+  UPDATE public.episodes e
+  SET season_number = ordered.season_number,
+      episode_number = ordered.episode_number,
+      updated_at = now()
+  FROM ordered
+  WHERE e.id = ordered.id
+    AND e.series_id = p_series_id;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$;
+
+-- Grant execute permissions
+REVOKE EXECUTE ON FUNCTION public.admin_reorder_episodes(uuid, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.admin_reorder_episodes(uuid, jsonb) TO authenticated;
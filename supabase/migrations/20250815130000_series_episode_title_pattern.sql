@@ -0,0 +1,80 @@
+/*
+  # Per-series episode title pattern
+
+  1. Table Changes
+    - Add `episode_title_pattern` to `series`: an optional JavaScript regular
+      expression used by the playlist import to detect season/episode numbers
+      when the built-in patterns do not fit a channel's naming scheme. Named
+      groups `season` and `episode` are supported.
+
+  2. Functions
+    - `admin_update_series` accepts `episode_title_pattern`
+*/
+
+-- Add pattern column to series table
+ALTER TABLE public.series ADD COLUMN IF NOT EXISTS episode_title_pattern text;
+
+-- Allow editing the pattern through admin_update_series
+CREATE OR REPLACE FUNCTION public.admin_update_series(
+  p_series_id uuid,
+  p_changes jsonb
+)
+RETURNS public.series
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  allowed_keys text[] := ARRAY[
+    'title',
+    'description',
+    'cover_image_url',
+    'category',
+    'slug',
+    'dailymotion_playlist_id',
+    'youtube_playlist_id',
+    'is_published',
+    'episode_title_pattern'
+  ];
+  unknown_key text;
+  updated_row public.series;
+BEGIN
+  PERFORM public.require_admin_role(ARRAY['owner', 'editor']::public.admin_role[]);
+
+  IF p_changes IS NULL OR jsonb_typeof(p_changes) <> 'object' THEN
+    RAISE EXCEPTION 'Changes must be a JSON object';
+  END IF;
+
+  SELECT key INTO unknown_key
+  FROM jsonb_object_keys(p_changes) AS key
+  WHERE key <> ALL (allowed_keys)
+  LIMIT 1;
+  IF unknown_key IS NOT NULL THEN
+    RAISE EXCEPTION 'Unknown series field: %', unknown_key;
+  END IF;
+
+  IF p_changes ? 'title' AND length(trim(coalesce(p_changes->>'title', ''))) = 0 THEN
+    RAISE EXCEPTION 'Title is required';
+  END IF;
+
+  UPDATE public.series
+  SET title = CASE WHEN p_changes ? 'title' THEN trim(p_changes->>'title') ELSE title END,
+      description = CASE WHEN p_changes ? 'description' THEN p_changes->>'description' ELSE description END,
+      cover_image_url = CASE WHEN p_changes ? 'cover_image_url' THEN p_changes->>'cover_image_url' ELSE cover_image_url END,
+      category = CASE WHEN p_changes ? 'category' THEN (p_changes->>'category')::public.series_category ELSE category END,
+      slug = CASE WHEN p_changes ? 'slug' THEN p_changes->>'slug' ELSE slug END,
+      dailymotion_playlist_id = CASE WHEN p_changes ? 'dailymotion_playlist_id' THEN p_changes->>'dailymotion_playlist_id' ELSE dailymotion_playlist_id END,
+      youtube_playlist_id = CASE WHEN p_changes ? 'youtube_playlist_id' THEN p_changes->>'youtube_playlist_id' ELSE youtube_playlist_id END,
+      is_published = CASE WHEN p_changes ? 'is_published' THEN COALESCE((p_changes->>'is_published')::boolean, false) ELSE is_published END,
+      episode_title_pattern = CASE WHEN p_changes ? 'episode_title_pattern' THEN p_changes->>'episode_title_pattern' ELSE episode_title_pattern END,
+      updated_at = now()
+  WHERE id = p_series_id
+  RETURNING * INTO updated_row;
+
+  IF updated_row.id IS NULL THEN
+    RAISE EXCEPTION 'Series not found';
+  END IF;
+
+  RETURN updated_row;
+END;
+$$;
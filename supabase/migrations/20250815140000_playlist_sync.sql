@@ -0,0 +1,171 @@
+/*
+  # Idempotent playlist sync
+
+  1. Data Cleanup
+    - Merge duplicate episodes created by re-running a playlist import: the
+      oldest row per (series, provider video) is kept and comments on the
+      duplicates are moved onto it
+
+  2. Table Changes
+    - `episodes.dailymotion_video_id` is now nullable so YouTube-only episodes
+      can be stored; a check constraint requires at least one provider video
+    - Unique constraints on (series_id, dailymotion_video_id) and
+      (series_id, youtube_video_id)
+
+  3. Functions
+    - `admin_sync_playlist` applies the chosen additions, renames and removals
+      of a playlist sync in a single transaction. Additions that already exist
+      are skipped, so applying the same sync twice is a no-op.
+    - A removed episode that still has the other provider's video keeps its
+      row and only loses this provider's video; the rest are deleted
+
+  4. Security
+    - Requires the owner or editor role
+    - Executable by the `authenticated` role only
+*/
+
+-- Merge duplicate episodes
+CREATE TEMP TABLE episode_duplicates AS
+SELECT DISTINCT ON (id) id, keep_id
+FROM (
+  SELECT id, first_value(id) OVER (PARTITION BY series_id, dailymotion_video_id ORDER BY created_at, id) AS keep_id
+  FROM public.episodes
+  WHERE dailymotion_video_id IS NOT NULL
+  UNION ALL
+  SELECT id, first_value(id) OVER (PARTITION BY series_id, youtube_video_id ORDER BY created_at, id) AS keep_id
+  FROM public.episodes
+  WHERE youtube_video_id IS NOT NULL
+) d
+WHERE id <> keep_id;
+
+UPDATE public.comments c
+SET episode_id = d.keep_id
+FROM episode_duplicates d
+WHERE c.episode_id = d.id;
+
+DELETE FROM public.episodes e
+USING episode_duplicates d
+WHERE e.id = d.id;
+
+DROP TABLE episode_duplicates;
+
+-- Allow YouTube-only episodes
+ALTER TABLE public.episodes ALTER COLUMN dailymotion_video_id DROP NOT NULL;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'episodes_has_video_check') THEN
+    ALTER TABLE public.episodes
+      ADD CONSTRAINT episodes_has_video_check
+      CHECK (dailymotion_video_id IS NOT NULL OR youtube_video_id IS NOT NULL);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'episodes_series_dailymotion_video_key') THEN
+    ALTER TABLE public.episodes
+      ADD CONSTRAINT episodes_series_dailymotion_video_key UNIQUE (series_id, dailymotion_video_id);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'episodes_series_youtube_video_key') THEN
+    ALTER TABLE public.episodes
+      ADD CONSTRAINT episodes_series_youtube_video_key UNIQUE (series_id, youtube_video_id);
+  END IF;
+END $$;
+
+-- Admin-secured RPC to apply a playlist sync
+CREATE OR REPLACE FUNCTION public.admin_sync_playlist(
+  p_series_id uuid,
+  p_provider text,
+  p_add jsonb DEFAULT '[]'::jsonb,
+  p_rename jsonb DEFAULT '[]'::jsonb,
+  p_remove uuid[] DEFAULT '{}'::uuid[]
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  added_count integer := 0;
+  renamed_count integer := 0;
+  unlinked_count integer := 0;
+  removed_count integer := 0;
+BEGIN
+  PERFORM public.require_admin_role(ARRAY['owner', 'editor']::public.admin_role[]);
+
+  IF p_provider NOT IN ('dailymotion', 'youtube') THEN
+    RAISE EXCEPTION 'Unsupported provider: %', p_provider;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.series WHERE id = p_series_id) THEN
+    RAISE EXCEPTION 'Series not found';
+  END IF;
+
+  IF p_provider = 'dailymotion' THEN
+    INSERT INTO public.episodes (series_id, title, dailymotion_video_id, description, season_number, episode_number, published_at)
+    SELECT
+      p_series_id,
+      item->>'title',
+      item->>'video_id',
+      item->>'description',
+      (item->>'season_number')::integer,
+      (item->>'episode_number')::integer,
+      (item->>'published_at')::timestamptz
+    FROM jsonb_array_elements(COALESCE(p_add, '[]'::jsonb)) AS item
+    ON CONFLICT ON CONSTRAINT episodes_series_dailymotion_video_key DO NOTHING;
+  ELSE
+    INSERT INTO public.episodes (series_id, title, youtube_video_id, description, season_number, episode_number, published_at)
+    SELECT
+      p_series_id,
+      item->>'title',
+      item->>'video_id',
+      item->>'description',
+      (item->>'season_number')::integer,
+      (item->>'episode_number')::integer,
+      (item->>'published_at')::timestamptz
+    FROM jsonb_array_elements(COALESCE(p_add, '[]'::jsonb)) AS item
+    ON CONFLICT ON CONSTRAINT episodes_series_youtube_video_key DO NOTHING;
+  END IF;
+  GET DIAGNOSTICS added_count = ROW_COUNT;
+
+  UPDATE public.episodes e
+  SET title = item->>'title',
+      updated_at = now()
+  FROM jsonb_array_elements(COALESCE(p_rename, '[]'::jsonb)) AS item
+  WHERE e.id = (item->>'id')::uuid
+    AND e.series_id = p_series_id
+    AND length(trim(coalesce(item->>'title', ''))) > 0;
+  GET DIAGNOSTICS renamed_count = ROW_COUNT;
+
+  -- Episodes that still have the other provider's video only lose this one
+  IF p_provider = 'dailymotion' THEN
+    UPDATE public.episodes
+    SET dailymotion_video_id = NULL,
+        updated_at = now()
+    WHERE id = ANY (COALESCE(p_remove, '{}'::uuid[]))
+      AND series_id = p_series_id
+      AND youtube_video_id IS NOT NULL;
+  ELSE
+    UPDATE public.episodes
+    SET youtube_video_id = NULL,
+        updated_at = now()
+    WHERE id = ANY (COALESCE(p_remove, '{}'::uuid[]))
+      AND series_id = p_series_id
+      AND dailymotion_video_id IS NOT NULL;
+  END IF;
+  GET DIAGNOSTICS unlinked_count = ROW_COUNT;
+
+  DELETE FROM public.episodes
+  WHERE id = ANY (COALESCE(p_remove, '{}'::uuid[]))
+    AND series_id = p_series_id
+    AND (CASE WHEN p_provider = 'dailymotion' THEN dailymotion_video_id ELSE youtube_video_id END) IS NOT NULL;
+  GET DIAGNOSTICS removed_count = ROW_COUNT;
+
+  RETURN json_build_object(
+    'added', added_count,
+    'renamed', renamed_count,
+    'unlinked', unlinked_count,
+    'removed', removed_count
+  );
+END;
+$$;
+
+-- Grant execute permissions
+REVOKE EXECUTE ON FUNCTION public.admin_sync_playlist(uuid, text, jsonb, jsonb, uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.admin_sync_playlist(uuid, text, jsonb, jsonb, uuid[]) TO authenticated;
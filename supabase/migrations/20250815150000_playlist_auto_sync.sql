@@ -0,0 +1,137 @@
+/*
+  # Scheduled playlist sync
+
+  1. Table Changes
+    - Add `auto_sync` to `series`: when true, the `playlist-sync` edge function
+      imports new videos from the series' Dailymotion and YouTube playlists
+
+  2. New Tables
+    - `playlist_sync_runs`: one row per run of the `playlist-sync` function
+      - `trigger` is `schedule` (cron) or `manual` (admin panel)
+      - `status` is `running`, `succeeded`, `partial` or `failed`
+      - `results` holds one entry per series and provider with the number of
+        fetched and added videos, or the error that stopped it
+
+  3. Functions
+    - `admin_update_series` accepts `auto_sync`
+
+  4. Security
+    - RLS enabled on `playlist_sync_runs`; staff can read runs, writes happen
+      only through the edge function's service role
+
+  5. Scheduling
+    - The function is not scheduled automatically because the project URL and
+      secret differ per environment. With `pg_cron` and `pg_net` enabled, run
+      once in the SQL editor (replace the placeholders):
+
+        select cron.schedule(
+          'playlist-sync-hourly',
+          '0 * * * *',
+          $cron$
+            select net.http_post(
+              url := 'https://<project-ref>.supabase.co/functions/v1/playlist-sync',
+              headers := jsonb_build_object(
+                'Content-Type', 'application/json',
+                'Authorization', 'Bearer <anon-key>',
+                'x-sync-secret', '<PLAYLIST_SYNC_SECRET>'
+              ),
+              body := '{}'::jsonb
+            );
+          $cron$
+        );
+*/
+
+-- Flag series for automatic sync
+ALTER TABLE public.series ADD COLUMN IF NOT EXISTS auto_sync boolean NOT NULL DEFAULT false;
+
+-- Sync run log
+CREATE TABLE IF NOT EXISTS public.playlist_sync_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trigger text NOT NULL CHECK (trigger IN ('schedule', 'manual')),
+  triggered_by uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'partial', 'failed')),
+  series_checked integer NOT NULL DEFAULT 0,
+  episodes_added integer NOT NULL DEFAULT 0,
+  results jsonb NOT NULL DEFAULT '[]'::jsonb,
+  error text,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_playlist_sync_runs_started_at ON public.playlist_sync_runs (started_at DESC);
+
+ALTER TABLE public.playlist_sync_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view sync runs" ON public.playlist_sync_runs;
+CREATE POLICY "Staff can view sync runs"
+  ON public.playlist_sync_runs
+  FOR SELECT
+  TO authenticated
+  USING (public.has_admin_role());
+
+-- Allow toggling auto-sync through admin_update_series
+CREATE OR REPLACE FUNCTION public.admin_update_series(
+  p_series_id uuid,
+  p_changes jsonb
+)
+RETURNS public.series
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  allowed_keys text[] := ARRAY[
+    'title',
+    'description',
+    'cover_image_url',
+    'category',
+    'slug',
+    'dailymotion_playlist_id',
+    'youtube_playlist_id',
+    'is_published',
+    'episode_title_pattern',
+    'auto_sync'
+  ];
+  unknown_key text;
+  updated_row public.series;
+BEGIN
+  PERFORM public.require_admin_role(ARRAY['owner', 'editor']::public.admin_role[]);
+
+  IF p_changes IS NULL OR jsonb_typeof(p_changes) <> 'object' THEN
+    RAISE EXCEPTION 'Changes must be a JSON object';
+  END IF;
+
+  SELECT key INTO unknown_key
+  FROM jsonb_object_keys(p_changes) AS key
+  WHERE key <> ALL (allowed_keys)
+  LIMIT 1;
+  IF unknown_key IS NOT NULL THEN
+    RAISE EXCEPTION 'Unknown series field: %', unknown_key;
+  END IF;
+
+  IF p_changes ? 'title' AND length(trim(coalesce(p_changes->>'title', ''))) = 0 THEN
+    RAISE EXCEPTION 'Title is required';
+  END IF;
+
+  UPDATE public.series
+  SET title = CASE WHEN p_changes ? 'title' THEN trim(p_changes->>'title') ELSE title END,
+      description = CASE WHEN p_changes ? 'description' THEN p_changes->>'description' ELSE description END,
+      cover_image_url = CASE WHEN p_changes ? 'cover_image_url' THEN p_changes->>'cover_image_url' ELSE cover_image_url END,
+      category = CASE WHEN p_changes ? 'category' THEN (p_changes->>'category')::public.series_category ELSE category END,
+      slug = CASE WHEN p_changes ? 'slug' THEN p_changes->>'slug' ELSE slug END,
+      dailymotion_playlist_id = CASE WHEN p_changes ? 'dailymotion_playlist_id' THEN p_changes->>'dailymotion_playlist_id' ELSE dailymotion_playlist_id END,
+      youtube_playlist_id = CASE WHEN p_changes ? 'youtube_playlist_id' THEN p_changes->>'youtube_playlist_id' ELSE youtube_playlist_id END,
+      is_published = CASE WHEN p_changes ? 'is_published' THEN COALESCE((p_changes->>'is_published')::boolean, false) ELSE is_published END,
+      episode_title_pattern = CASE WHEN p_changes ? 'episode_title_pattern' THEN p_changes->>'episode_title_pattern' ELSE episode_title_pattern END,
+      auto_sync = CASE WHEN p_changes ? 'auto_sync' THEN COALESCE((p_changes->>'auto_sync')::boolean, false) ELSE auto_sync END,
+      updated_at = now()
+  WHERE id = p_series_id
+  RETURNING * INTO updated_row;
+
+  IF updated_row.id IS NULL THEN
+    RAISE EXCEPTION 'Series not found';
+  END IF;
+
+  RETURN updated_row;
+END;
+$$;
@@ -0,0 +1,249 @@
+/*
+  # Playlist import jobs
+
+  1. New Tables
+    - `import_jobs`: one row per playlist import started from the admin panel
+      - `status` is `running` until no item is pending, then `completed`
+      - `succeeded_count` / `failed_count` are kept up to date by the RPCs
+    - `import_job_items`: one row per video to import
+      - `status` is `pending`, `succeeded` or `failed`
+      - `error` keeps the Postgres error message of the last failed attempt
+      - `episode_id` points at the created episode
+
+  2. Functions
+    - `admin_create_import_job(p_series_id, p_provider, p_items)` queues the
+      videos and returns the job
+    - `admin_run_import_batch(p_job_id, p_batch_size)` imports up to
+      `p_batch_size` pending items, each in its own subtransaction so one bad
+      row does not roll back the batch, and returns the updated job. The
+      client calls it repeatedly to drive a progress bar.
+    - `admin_retry_import_job(p_job_id)` puts failed items back in the queue;
+      pending items stay queued, so it also resumes a job whose client
+      stopped between batches
+
+  3. Security
+    - RLS enabled; staff with the owner or editor role can read jobs and
+      items, all writes go through the RPCs above
+*/
+
+-- Jobs
+CREATE TABLE IF NOT EXISTS public.import_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  series_id uuid NOT NULL REFERENCES public.series (id) ON DELETE CASCADE,
+  provider text NOT NULL CHECK (provider IN ('dailymotion', 'youtube')),
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed')),
+  total_count integer NOT NULL DEFAULT 0,
+  succeeded_count integer NOT NULL DEFAULT 0,
+  failed_count integer NOT NULL DEFAULT 0,
+  created_by uuid REFERENCES auth.users (id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_jobs_series_id ON public.import_jobs (series_id);
+
+-- Items
+CREATE TABLE IF NOT EXISTS public.import_job_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id uuid NOT NULL REFERENCES public.import_jobs (id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  video_id text NOT NULL,
+  title text NOT NULL,
+  description text,
+  season_number integer,
+  episode_number integer,
+  published_at timestamptz,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  error text,
+  attempts integer NOT NULL DEFAULT 0,
+  episode_id uuid REFERENCES public.episodes (id) ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (job_id, video_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_job_items_job_status ON public.import_job_items (job_id, status, position);
+
+ALTER TABLE public.import_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.import_job_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Editors can view import jobs" ON public.import_jobs;
+CREATE POLICY "Editors can view import jobs"
+  ON public.import_jobs
+  FOR SELECT
+  TO authenticated
+  USING (public.has_admin_role(ARRAY['owner', 'editor']::public.admin_role[]));
+
+DROP POLICY IF EXISTS "Editors can view import job items" ON public.import_job_items;
+CREATE POLICY "Editors can view import job items"
+  ON public.import_job_items
+  FOR SELECT
+  TO authenticated
+  USING (public.has_admin_role(ARRAY['owner', 'editor']::public.admin_role[]));
+
+-- Queue a playlist import
+CREATE OR REPLACE FUNCTION public.admin_create_import_job(
+  p_series_id uuid,
+  p_provider text,
+  p_items jsonb
+)
+RETURNS public.import_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_job public.import_jobs;
+BEGIN
+  PERFORM public.require_admin_role(ARRAY['owner', 'editor']::public.admin_role[]);
+
+  IF p_provider NOT IN ('dailymotion', 'youtube') THEN
+    RAISE EXCEPTION 'Unsupported provider: %', p_provider;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Select at least one video to import';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.series WHERE id = p_series_id) THEN
+    RAISE EXCEPTION 'Series not found';
+  END IF;
+
+  INSERT INTO public.import_jobs (series_id, provider)
+  VALUES (p_series_id, p_provider)
+  RETURNING * INTO new_job;
+
+  INSERT INTO public.import_job_items (job_id, position, video_id, title, description, season_number, episode_number, published_at)
+  SELECT
+    new_job.id,
+    item.ordinality,
+    item.value->>'video_id',
+    COALESCE(NULLIF(trim(item.value->>'title'), ''), 'Episode ' || item.ordinality),
+    item.value->>'description',
+    (item.value->>'season_number')::integer,
+    (item.value->>'episode_number')::integer,
+    (item.value->>'published_at')::timestamptz
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS item(value, ordinality)
+  ON CONFLICT (job_id, video_id) DO NOTHING;
+
+  UPDATE public.import_jobs
+  SET total_count = (SELECT count(*) FROM public.import_job_items WHERE job_id = new_job.id)
+  WHERE id = new_job.id
+  RETURNING * INTO new_job;
+
+  RETURN new_job;
+END;
+$$;
+
+-- Import the next batch of pending items
+CREATE OR REPLACE FUNCTION public.admin_run_import_batch(
+  p_job_id uuid,
+  p_batch_size integer DEFAULT 25
+)
+RETURNS public.import_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  job public.import_jobs;
+  item public.import_job_items;
+  new_episode_id uuid;
+BEGIN
+  PERFORM public.require_admin_role(ARRAY['owner', 'editor']::public.admin_role[]);
+
+  SELECT * INTO job FROM public.import_jobs WHERE id = p_job_id FOR UPDATE;
+  IF job.id IS NULL THEN
+    RAISE EXCEPTION 'Import job not found';
+  END IF;
+
+  FOR item IN
+    SELECT * FROM public.import_job_items
+    WHERE job_id = p_job_id AND status = 'pending'
+    ORDER BY position
+    LIMIT GREATEST(1, LEAST(COALESCE(p_batch_size, 25), 200))
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      INSERT INTO public.episodes (series_id, title, dailymotion_video_id, youtube_video_id, description, season_number, episode_number, published_at)
+      VALUES (
+        job.series_id,
+        item.title,
+        CASE WHEN job.provider = 'dailymotion' THEN item.video_id END,
+        CASE WHEN job.provider = 'youtube' THEN item.video_id END,
+        item.description,
+        item.season_number,
+        item.episode_number,
+        item.published_at
+      )
+      RETURNING id INTO new_episode_id;
+
+      UPDATE public.import_job_items
+      SET status = 'succeeded', error = NULL, episode_id = new_episode_id,
+          attempts = attempts + 1, updated_at = now()
+      WHERE id = item.id;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE public.import_job_items
+      SET status = 'failed', error = SQLERRM,
+          attempts = attempts + 1, updated_at = now()
+      WHERE id = item.id;
+    END;
+  END LOOP;
+
+  UPDATE public.import_jobs j
+  SET succeeded_count = counts.succeeded,
+      failed_count = counts.failed,
+      status = CASE WHEN counts.pending = 0 THEN 'completed' ELSE 'running' END,
+      finished_at = CASE WHEN counts.pending = 0 THEN now() ELSE NULL END,
+      updated_at = now()
+  FROM (
+    SELECT
+      count(*) FILTER (WHERE status = 'succeeded') AS succeeded,
+      count(*) FILTER (WHERE status = 'failed') AS failed,
+      count(*) FILTER (WHERE status = 'pending') AS pending
+    FROM public.import_job_items
+    WHERE job_id = p_job_id
+  ) counts
+  WHERE j.id = p_job_id
+  RETURNING j.* INTO job;
+
+  RETURN job;
+END;
+$$;
+
+-- Re-queue failed items
+CREATE OR REPLACE FUNCTION public.admin_retry_import_job(p_job_id uuid)
+RETURNS public.import_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  job public.import_jobs;
+BEGIN
+  PERFORM public.require_admin_role(ARRAY['owner', 'editor']::public.admin_role[]);
+
+  UPDATE public.import_job_items
+  SET status = 'pending', updated_at = now()
+  WHERE job_id = p_job_id AND status = 'failed';
+
+  UPDATE public.import_jobs
+  SET status = 'running', failed_count = 0, finished_at = NULL, updated_at = now()
+  WHERE id = p_job_id
+  RETURNING * INTO job;
+
+  IF job.id IS NULL THEN
+    RAISE EXCEPTION 'Import job not found';
+  END IF;
+
+  RETURN job;
+END;
+$$;
+
+-- Grant execute permissions
+REVOKE EXECUTE ON FUNCTION public.admin_create_import_job(uuid, text, jsonb) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.admin_run_import_batch(uuid, integer) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.admin_retry_import_job(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.admin_create_import_job(uuid, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_run_import_batch(uuid, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_retry_import_job(uuid) TO authenticated;
@@ -0,0 +1,426 @@
+/*
+  # Episode thumbnails, durations and provider metadata
+
+  1. Table Changes
+    - `episodes` and `import_job_items` gain:
+      - `thumbnail_url` (text)
+      - `duration_seconds` (integer, not negative)
+      - `uploaded_at` (timestamptz): original upload date on the provider,
+        distinct from `published_at` which is when the episode goes live here
+      - `provider_channel` (text): uploader channel name on the provider
+
+  2. Functions
+    - `admin_create_episode` gains optional parameters for the new columns
+      (the old signature is dropped to avoid ambiguous overloads)
+    - `admin_update_episode` accepts the new columns
+    - `admin_create_import_job`, `admin_run_import_batch` and
+      `admin_sync_playlist` carry the metadata from the fetched playlist;
+      `admin_sync_playlist` keeps unlinking, rather than deleting, removed
+      episodes that still have the other provider's video
+*/
+
+-- New columns
+ALTER TABLE public.episodes
+  ADD COLUMN IF NOT EXISTS thumbnail_url text,
+  ADD COLUMN IF NOT EXISTS duration_seconds integer CHECK (duration_seconds IS NULL OR duration_seconds >= 0),
+  ADD COLUMN IF NOT EXISTS uploaded_at timestamptz,
+  ADD COLUMN IF NOT EXISTS provider_channel text;
+
+ALTER TABLE public.import_job_items
+  ADD COLUMN IF NOT EXISTS thumbnail_url text,
+  ADD COLUMN IF NOT EXISTS duration_seconds integer,
+  ADD COLUMN IF NOT EXISTS uploaded_at timestamptz,
+  ADD COLUMN IF NOT EXISTS provider_channel text;
+
+-- admin_create_episode with metadata
+DROP FUNCTION IF EXISTS public.admin_create_episode(uuid, text, text, text, integer, integer, timestamptz, text);
+
+CREATE OR REPLACE FUNCTION public.admin_create_episode(
+  series_id uuid,
+  title text,
+  dailymotion_video_id text,
+  description text DEFAULT NULL,
+  season_number integer DEFAULT NULL,
+  episode_number integer DEFAULT NULL,
+  published_at timestamptz DEFAULT NULL,
+  youtube_video_id text DEFAULT NULL,
+  thumbnail_url text DEFAULT NULL,
+  duration_seconds integer DEFAULT NULL,
+  uploaded_at timestamptz DEFAULT NULL,
+  provider_channel text DEFAULT NULL
+)
+RETURNS public.episodes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_row public.episodes;
+BEGIN
+  PERFORM public.require_admin_role(ARRAY['owner', 'editor']::public.admin_role[]);
+
+  INSERT INTO public.episodes (
+    series_id,
+    title,
+    dailymotion_video_id,
+    youtube_video_id,
+    description,
+    season_number,
+    episode_number,
+    published_at,
+    thumbnail_url,
+    duration_seconds,
+    uploaded_at,
+    provider_channel
+  ) VALUES (
+    series_id,
+    title,
+    dailymotion_video_id,
+    youtube_video_id,
+    description,
+    season_number,
+    episode_number,
+    published_at,
+    thumbnail_url,
+    duration_seconds,
+    uploaded_at,
+    provider_channel
+  )
+  RETURNING * INTO new_row;
+
+  RETURN new_row;
+END;
+$$;
+
+-- admin_update_episode accepts the metadata columns
+CREATE OR REPLACE FUNCTION public.admin_update_episode(
+  p_episode_id uuid,
+  p_changes jsonb
+)
+RETURNS public.episodes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  allowed_keys text[] := ARRAY[
+    'title',
+    'description',
+    'season_number',
+    'episode_number',
+    'dailymotion_video_id',
+    'youtube_video_id',
+    'published_at',
+    'thumbnail_url',
+    'duration_seconds',
+    'uploaded_at',
+    'provider_channel'
+  ];
+  unknown_key text;
+  updated_row public.episodes;
+BEGIN
+  PERFORM public.require_admin_role(ARRAY['owner', 'editor']::public.admin_role[]);
+
+  IF p_changes IS NULL OR jsonb_typeof(p_changes) <> 'object' THEN
+    RAISE EXCEPTION 'Changes must be a JSON object';
+  END IF;
+
+  SELECT key INTO unknown_key
+  FROM jsonb_object_keys(p_changes) AS key
+  WHERE key <> ALL (allowed_keys)
+  LIMIT 1;
+  IF unknown_key IS NOT NULL THEN
+    RAISE EXCEPTION 'Unknown episode field: %', unknown_key;
+  END IF;
+
+  IF p_changes ? 'title' AND length(trim(coalesce(p_changes->>'title', ''))) = 0 THEN
+    RAISE EXCEPTION 'Title is required';
+  END IF;
+
+  IF (p_changes ? 'season_number' AND (p_changes->>'season_number')::integer < 0)
+    OR (p_changes ? 'episode_number' AND (p_changes->>'episode_number')::integer < 0) THEN
+    RAISE EXCEPTION 'Season and episode numbers cannot be negative';
+  END IF;
+
+  UPDATE public.episodes
+  SET title = CASE WHEN p_changes ? 'title' THEN trim(p_changes->>'title') ELSE title END,
+      description = CASE WHEN p_changes ? 'description' THEN p_changes->>'description' ELSE description END,
+      season_number = CASE WHEN p_changes ? 'season_number' THEN (p_changes->>'season_number')::integer ELSE season_number END,
+      episode_number = CASE WHEN p_changes ? 'episode_number' THEN (p_changes->>'episode_number')::integer ELSE episode_number END,
+      dailymotion_video_id = CASE WHEN p_changes ? 'dailymotion_video_id' THEN p_changes->>'dailymotion_video_id' ELSE dailymotion_video_id END,
+      youtube_video_id = CASE WHEN p_changes ? 'youtube_video_id' THEN p_changes->>'youtube_video_id' ELSE youtube_video_id END,
+      published_at = CASE WHEN p_changes ? 'published_at' THEN (p_changes->>'published_at')::timestamptz ELSE published_at END,
+      thumbnail_url = CASE WHEN p_changes ? 'thumbnail_url' THEN p_changes->>'thumbnail_url' ELSE thumbnail_url END,
+      duration_seconds = CASE WHEN p_changes ? 'duration_seconds' THEN (p_changes->>'duration_seconds')::integer ELSE duration_seconds END,
+      uploaded_at = CASE WHEN p_changes ? 'uploaded_at' THEN (p_changes->>'uploaded_at')::timestamptz ELSE uploaded_at END,
+      provider_channel = CASE WHEN p_changes ? 'provider_channel' THEN p_changes->>'provider_channel' ELSE provider_channel END,
+      updated_at = now()
+  WHERE id = p_episode_id
+  RETURNING * INTO updated_row;
+
+  IF updated_row.id IS NULL THEN
+    RAISE EXCEPTION 'Episode not found';
+  END IF;
+
+  RETURN updated_row;
+END;
+$$;
+
+-- Import jobs keep the playlist metadata per item
+CREATE OR REPLACE FUNCTION public.admin_create_import_job(
+  p_series_id uuid,
+  p_provider text,
+  p_items jsonb
+)
+RETURNS public.import_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_job public.import_jobs;
+BEGIN
+  PERFORM public.require_admin_role(ARRAY['owner', 'editor']::public.admin_role[]);
+
+  IF p_provider NOT IN ('dailymotion', 'youtube') THEN
+    RAISE EXCEPTION 'Unsupported provider: %', p_provider;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Select at least one video to import';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.series WHERE id = p_series_id) THEN
+    RAISE EXCEPTION 'Series not found';
+  END IF;
+
+  INSERT INTO public.import_jobs (series_id, provider)
+  VALUES (p_series_id, p_provider)
+  RETURNING * INTO new_job;
+
+  INSERT INTO public.import_job_items (
+    job_id, position, video_id, title, description, season_number, episode_number, published_at,
+    thumbnail_url, duration_seconds, uploaded_at, provider_channel
+  )
+  SELECT
+    new_job.id,
+    item.ordinality,
+    item.value->>'video_id',
+    COALESCE(NULLIF(trim(item.value->>'title'), ''), 'Episode ' || item.ordinality),
+    item.value->>'description',
+    (item.value->>'season_number')::integer,
+    (item.value->>'episode_number')::integer,
+    (item.value->>'published_at')::timestamptz,
+    item.value->>'thumbnail_url',
+    (item.value->>'duration_seconds')::integer,
+    (item.value->>'uploaded_at')::timestamptz,
+    item.value->>'provider_channel'
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS item(value, ordinality)
+  ON CONFLICT (job_id, video_id) DO NOTHING;
+
+  UPDATE public.import_jobs
+  SET total_count = (SELECT count(*) FROM public.import_job_items WHERE job_id = new_job.id)
+  WHERE id = new_job.id
+  RETURNING * INTO new_job;
+
+  RETURN new_job;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_run_import_batch(
+  p_job_id uuid,
+  p_batch_size integer DEFAULT 25
+)
+RETURNS public.import_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  job public.import_jobs;
+  item public.import_job_items;
+  new_episode_id uuid;
+BEGIN
+  PERFORM public.require_admin_role(ARRAY['owner', 'editor']::public.admin_role[]);
+
+  SELECT * INTO job FROM public.import_jobs WHERE id = p_job_id FOR UPDATE;
+  IF job.id IS NULL THEN
+    RAISE EXCEPTION 'Import job not found';
+  END IF;
+
+  FOR item IN
+    SELECT * FROM public.import_job_items
+    WHERE job_id = p_job_id AND status = 'pending'
+    ORDER BY position
+    LIMIT GREATEST(1, LEAST(COALESCE(p_batch_size, 25), 200))
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      INSERT INTO public.episodes (
+        series_id, title, dailymotion_video_id, youtube_video_id, description, season_number, episode_number, published_at,
+        thumbnail_url, duration_seconds, uploaded_at, provider_channel
+      )
+      VALUES (
+        job.series_id,
+        item.title,
+        CASE WHEN job.provider = 'dailymotion' THEN item.video_id END,
+        CASE WHEN job.provider = 'youtube' THEN item.video_id END,
+        item.description,
+        item.season_number,
+        item.episode_number,
+        item.published_at,
+        item.thumbnail_url,
+        item.duration_seconds,
+        item.uploaded_at,
+        item.provider_channel
+      )
+      RETURNING id INTO new_episode_id;
+
+      UPDATE public.import_job_items
+      SET status = 'succeeded', error = NULL, episode_id = new_episode_id,
+          attempts = attempts + 1, updated_at = now()
+      WHERE id = item.id;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE public.import_job_items
+      SET status = 'failed', error = SQLERRM,
+          attempts = attempts + 1, updated_at = now()
+      WHERE id = item.id;
+    END;
+  END LOOP;
+
+  UPDATE public.import_jobs j
+  SET succeeded_count = counts.succeeded,
+      failed_count = counts.failed,
+      status = CASE WHEN counts.pending = 0 THEN 'completed' ELSE 'running' END,
+      finished_at = CASE WHEN counts.pending = 0 THEN now() ELSE NULL END,
+      updated_at = now()
+  FROM (
+    SELECT
+      count(*) FILTER (WHERE status = 'succeeded') AS succeeded,
+      count(*) FILTER (WHERE status = 'failed') AS failed,
+      count(*) FILTER (WHERE status = 'pending') AS pending
+    FROM public.import_job_items
+    WHERE job_id = p_job_id
+  ) counts
+  WHERE j.id = p_job_id
+  RETURNING j.* INTO job;
+
+  RETURN job;
+END;
+$$;
+
+-- Playlist sync stores metadata for new episodes
+CREATE OR REPLACE FUNCTION public.admin_sync_playlist(
+  p_series_id uuid,
+  p_provider text,
+  p_add jsonb DEFAULT '[]'::jsonb,
+  p_rename jsonb DEFAULT '[]'::jsonb,
+  p_remove uuid[] DEFAULT '{}'::uuid[]
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  added_count integer := 0;
+  renamed_count integer := 0;
+  unlinked_count integer := 0;
+  removed_count integer := 0;
+BEGIN
+  PERFORM public.require_admin_role(ARRAY['owner', 'editor']::public.admin_role[]);
+
+  IF p_provider NOT IN ('dailymotion', 'youtube') THEN
+    RAISE EXCEPTION 'Unsupported provider: %', p_provider;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.series WHERE id = p_series_id) THEN
+    RAISE EXCEPTION 'Series not found';
+  END IF;
+
+  IF p_provider = 'dailymotion' THEN
+    INSERT INTO public.episodes (
+      series_id, title, dailymotion_video_id, description, season_number, episode_number, published_at,
+      thumbnail_url, duration_seconds, uploaded_at, provider_channel
+    )
+    SELECT
+      p_series_id,
+      item->>'title',
+      item->>'video_id',
+      item->>'description',
+      (item->>'season_number')::integer,
+      (item->>'episode_number')::integer,
+      (item->>'published_at')::timestamptz,
+      item->>'thumbnail_url',
+      (item->>'duration_seconds')::integer,
+      (item->>'uploaded_at')::timestamptz,
+      item->>'provider_channel'
+    FROM jsonb_array_elements(COALESCE(p_add, '[]'::jsonb)) AS item
+    ON CONFLICT ON CONSTRAINT episodes_series_dailymotion_video_key DO NOTHING;
+  ELSE
+    INSERT INTO public.episodes (
+      series_id, title, youtube_video_id, description, season_number, episode_number, published_at,
+      thumbnail_url, duration_seconds, uploaded_at, provider_channel
+    )
+    SELECT
+      p_series_id,
+      item->>'title',
+      item->>'video_id',
+      item->>'description',
+      (item->>'season_number')::integer,
+      (item->>'episode_number')::integer,
+      (item->>'published_at')::timestamptz,
+      item->>'thumbnail_url',
+      (item->>'duration_seconds')::integer,
+      (item->>'uploaded_at')::timestamptz,
+      item->>'provider_channel'
+    FROM jsonb_array_elements(COALESCE(p_add, '[]'::jsonb)) AS item
+    ON CONFLICT ON CONSTRAINT episodes_series_youtube_video_key DO NOTHING;
+  END IF;
+  GET DIAGNOSTICS added_count = ROW_COUNT;
+
+  UPDATE public.episodes e
+  SET title = item->>'title',
+      updated_at = now()
+  FROM jsonb_array_elements(COALESCE(p_rename, '[]'::jsonb)) AS item
+  WHERE e.id = (item->>'id')::uuid
+    AND e.series_id = p_series_id
+    AND length(trim(coalesce(item->>'title', ''))) > 0;
+  GET DIAGNOSTICS renamed_count = ROW_COUNT;
+
+  -- Episodes that still have the other provider's video only lose this one
+  IF p_provider = 'dailymotion' THEN
+    UPDATE public.episodes
+    SET dailymotion_video_id = NULL,
+        updated_at = now()
+    WHERE id = ANY (COALESCE(p_remove, '{}'::uuid[]))
+      AND series_id = p_series_id
+      AND youtube_video_id IS NOT NULL;
+  ELSE
+    UPDATE public.episodes
+    SET youtube_video_id = NULL,
+        updated_at = now()
+    WHERE id = ANY (COALESCE(p_remove, '{}'::uuid[]))
+      AND series_id = p_series_id
+      AND dailymotion_video_id IS NOT NULL;
+  END IF;
+  GET DIAGNOSTICS unlinked_count = ROW_COUNT;
+
+  DELETE FROM public.episodes
+  WHERE id = ANY (COALESCE(p_remove, '{}'::uuid[]))
+    AND series_id = p_series_id
+    AND (CASE WHEN p_provider = 'dailymotion' THEN dailymotion_video_id ELSE youtube_video_id END) IS NOT NULL;
+  GET DIAGNOSTICS removed_count = ROW_COUNT;
+
+  RETURN json_build_object(
+    'added', added_count,
+    'renamed', renamed_count,
+    'unlinked', unlinked_count,
+    'removed', removed_count
+  );
+END;
+$$;
+
+-- Grant execute permissions
+REVOKE EXECUTE ON FUNCTION public.admin_create_episode(uuid, text, text, text, integer, integer, timestamptz, text, text, integer, timestamptz, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.admin_create_episode(uuid, text, text, text, integer, integer, timestamptz, text, text, integer, timestamptz, text) TO authenticated;
@@ -0,0 +1,152 @@
+/*
+  # Series slugs
+
+  1. Functions
+    - `slugify(text)`: lowercase letters and digits in any script joined by
+      single hyphens, so non-Latin titles keep a readable slug; mirrors
+      `slugify` in src/lib/slug.ts
+    - `unique_series_slug(base, series_id)`: slugifies `base` (falling back to
+      `series` when nothing is left) and appends `-2`, `-3`, ... until the slug
+      is used neither by another series nor by another series' redirect
+
+  2. New Tables
+    - `series_slug_redirects`: old slug -> series, so links keep working after
+      a slug changes
+
+  3. Triggers
+    - Before insert/update on `series`: an empty slug is generated from the
+      title; an explicit slug is normalized and must not belong to another
+      series
+    - After insert/update of `slug`: the previous slug becomes a redirect, and
+      a redirect with the new slug is dropped since the series now owns it
+
+  4. Data
+    - Series without a slug, or with one that is not URL-safe, get a slug from
+      their title (oldest first, so the original keeps the unsuffixed slug)
+    - `series_slug_format_check` enforces the slug format from then on
+
+  5. Security
+    - RLS enabled on `series_slug_redirects`; anyone can read redirects, writes
+      happen only through the triggers
+*/
+
+CREATE OR REPLACE FUNCTION public.slugify(p_text text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(both '-' from regexp_replace(lower(coalesce(p_text, '')), '[^[:alnum:]]+', '-', 'g'));
+$$;
+
+-- Redirects from previous slugs
+CREATE TABLE IF NOT EXISTS public.series_slug_redirects (
+  slug text PRIMARY KEY,
+  series_id uuid NOT NULL REFERENCES public.series (id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_series_slug_redirects_series_id ON public.series_slug_redirects (series_id);
+
+ALTER TABLE public.series_slug_redirects ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public can read slug redirects" ON public.series_slug_redirects;
+CREATE POLICY "Public can read slug redirects"
+  ON public.series_slug_redirects
+  FOR SELECT
+  USING (true);
+
+CREATE OR REPLACE FUNCTION public.unique_series_slug(
+  p_base text,
+  p_series_id uuid
+)
+RETURNS text
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  base_slug text := trim(both '-' from left(coalesce(nullif(public.slugify(p_base), ''), 'series'), 80));
+  candidate text := base_slug;
+  suffix integer := 1;
+BEGIN
+  WHILE EXISTS (SELECT 1 FROM public.series WHERE slug = candidate AND id IS DISTINCT FROM p_series_id)
+     OR EXISTS (SELECT 1 FROM public.series_slug_redirects WHERE slug = candidate AND series_id IS DISTINCT FROM p_series_id)
+  LOOP
+    suffix := suffix + 1;
+    candidate := base_slug || '-' || suffix;
+  END LOOP;
+
+  RETURN candidate;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_series_slug()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.slug IS NULL OR btrim(NEW.slug) = '' THEN
+    NEW.slug := public.unique_series_slug(NEW.title, NEW.id);
+  ELSIF TG_OP = 'INSERT' OR NEW.slug IS DISTINCT FROM OLD.slug THEN
+    NEW.slug := public.slugify(NEW.slug);
+    IF NEW.slug = '' THEN
+      RAISE EXCEPTION 'Slug must contain letters or numbers';
+    END IF;
+    IF EXISTS (SELECT 1 FROM public.series WHERE slug = NEW.slug AND id <> NEW.id) THEN
+      RAISE EXCEPTION 'Slug "%" is already used by another series', NEW.slug;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_series_slug_redirect()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.slug IS NOT NULL AND OLD.slug IS DISTINCT FROM NEW.slug THEN
+    INSERT INTO public.series_slug_redirects (slug, series_id)
+    VALUES (OLD.slug, NEW.id)
+    ON CONFLICT (slug) DO UPDATE SET series_id = EXCLUDED.series_id, created_at = now();
+  END IF;
+
+  DELETE FROM public.series_slug_redirects WHERE slug = NEW.slug;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_series_set_slug ON public.series;
+CREATE TRIGGER trg_series_set_slug
+  BEFORE INSERT OR UPDATE ON public.series
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_series_slug();
+
+DROP TRIGGER IF EXISTS trg_series_slug_redirect ON public.series;
+CREATE TRIGGER trg_series_slug_redirect
+  AFTER INSERT OR UPDATE OF slug ON public.series
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_series_slug_redirect();
+
+-- Backfill one row at a time so each slug sees the ones generated before it
+DO $$
+DECLARE
+  r record;
+BEGIN
+  FOR r IN
+    SELECT id
+    FROM public.series
+    WHERE slug IS NULL OR slug !~ '^[[:alnum:]]+(-[[:alnum:]]+)*$' OR slug <> lower(slug)
+    ORDER BY created_at
+  LOOP
+    UPDATE public.series SET slug = NULL WHERE id = r.id;
+  END LOOP;
+END
+$$;
+
+ALTER TABLE public.series DROP CONSTRAINT IF EXISTS series_slug_format_check;
+ALTER TABLE public.series
+  ADD CONSTRAINT series_slug_format_check CHECK (slug ~ '^[[:alnum:]]+(-[[:alnum:]]+)*$' AND slug = lower(slug));
@@ -0,0 +1,169 @@
+/*
+  # Deduplicated view counting
+
+  1. New Tables
+    - `view_sessions`: one row per started playback, timed by the server
+      - `viewer_id` is an anonymous id generated and kept by the browser
+      - `episode_id` is null when the series playlist was watched instead of
+        a single episode
+    - `view_events`: one row per counted view
+
+  2. Functions
+    - `start_view(series_id, episode_id, viewer_id)` opens a session when
+      playback starts and returns its id
+    - `record_view(session_id)` counts a view only once 30 seconds have passed
+      since the session started (measured on the server, not reported by the
+      browser), once per session, and at most once per viewer and episode
+      (or series playlist) every 6 hours. Returns `{ counted, views_count }`.
+    - `increment_series_view` is dropped; it counted every call
+
+  3. Data
+    - `series.views_count` keeps its existing total as a baseline; from now
+      on only counted views add to it
+
+  4. Security
+    - RLS enabled on both tables; staff can read events, writes happen only
+      through the functions above
+*/
+
+CREATE TABLE IF NOT EXISTS public.view_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  series_id uuid NOT NULL REFERENCES public.series (id) ON DELETE CASCADE,
+  episode_id uuid REFERENCES public.episodes (id) ON DELETE SET NULL,
+  viewer_id uuid NOT NULL,
+  watched_seconds integer NOT NULL CHECK (watched_seconds >= 0),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_view_events_viewer ON public.view_events (viewer_id, series_id, episode_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_view_events_series_created_at ON public.view_events (series_id, created_at DESC);
+
+ALTER TABLE public.view_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view view events" ON public.view_events;
+CREATE POLICY "Staff can view view events"
+  ON public.view_events
+  FOR SELECT
+  TO authenticated
+  USING (public.has_admin_role());
+
+CREATE TABLE IF NOT EXISTS public.view_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  series_id uuid NOT NULL REFERENCES public.series (id) ON DELETE CASCADE,
+  episode_id uuid REFERENCES public.episodes (id) ON DELETE CASCADE,
+  viewer_id uuid NOT NULL,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  counted_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_view_sessions_viewer_started_at ON public.view_sessions (viewer_id, started_at);
+
+ALTER TABLE public.view_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.start_view(
+  p_series_id uuid,
+  p_episode_id uuid,
+  p_viewer_id uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  session_id uuid;
+BEGIN
+  IF p_viewer_id IS NULL THEN
+    RAISE EXCEPTION 'Viewer id is required';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.series WHERE id = p_series_id) THEN
+    RAISE EXCEPTION 'Series not found';
+  END IF;
+
+  IF p_episode_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.episodes WHERE id = p_episode_id AND series_id = p_series_id
+  ) THEN
+    RAISE EXCEPTION 'Episode does not belong to this series';
+  END IF;
+
+  -- Sessions are only needed until they count; drop this viewer's stale ones
+  DELETE FROM public.view_sessions
+  WHERE viewer_id = p_viewer_id
+    AND started_at < now() - interval '1 day';
+
+  INSERT INTO public.view_sessions (series_id, episode_id, viewer_id)
+  VALUES (p_series_id, p_episode_id, p_viewer_id)
+  RETURNING id INTO session_id;
+
+  RETURN session_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_view(
+  p_session_id uuid
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  min_watch_seconds constant integer := 30;
+  dedup_window constant interval := interval '6 hours';
+  session public.view_sessions;
+  current_views bigint;
+BEGIN
+  -- Lock the session so concurrent reports for it apply one after another
+  SELECT * INTO session FROM public.view_sessions WHERE id = p_session_id FOR UPDATE;
+  IF session.id IS NULL THEN
+    RAISE EXCEPTION 'View session not found';
+  END IF;
+
+  SELECT views_count INTO current_views FROM public.series WHERE id = session.series_id;
+
+  IF session.counted_at IS NOT NULL OR now() - session.started_at < make_interval(secs => min_watch_seconds) THEN
+    RETURN json_build_object('counted', false, 'views_count', current_views);
+  END IF;
+
+  -- Serialize concurrent reports for the same viewer and episode so only one lands
+  PERFORM pg_advisory_xact_lock(
+    hashtextextended(session.viewer_id::text || ':' || coalesce(session.episode_id, session.series_id)::text, 0)
+  );
+
+  UPDATE public.view_sessions SET counted_at = now() WHERE id = session.id;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.view_events
+    WHERE viewer_id = session.viewer_id
+      AND series_id = session.series_id
+      AND episode_id IS NOT DISTINCT FROM session.episode_id
+      AND created_at > now() - dedup_window
+  ) THEN
+    RETURN json_build_object('counted', false, 'views_count', current_views);
+  END IF;
+
+  INSERT INTO public.view_events (series_id, episode_id, viewer_id, watched_seconds)
+  VALUES (
+    session.series_id,
+    session.episode_id,
+    session.viewer_id,
+    floor(extract(epoch FROM now() - session.started_at))::integer
+  );
+
+  UPDATE public.series
+  SET views_count = views_count + 1
+  WHERE id = session.series_id
+  RETURNING views_count INTO current_views;
+
+  RETURN json_build_object('counted', true, 'views_count', current_views);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.start_view(uuid, uuid, uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.record_view(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.start_view(uuid, uuid, uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_view(uuid) TO anon, authenticated;
+
+DROP FUNCTION IF EXISTS public.increment_series_view(uuid);
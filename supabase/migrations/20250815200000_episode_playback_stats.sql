@@ -0,0 +1,87 @@
+/*
+  # Per-episode playback statistics
+
+  1. New Tables
+    - `episode_playback_stats`: hourly aggregates per episode
+      - `bucket_start` is the start of the hour (UTC) the events fell into
+      - `play_starts` counts first plays of an episode per page load
+      - `completions` counts plays that reached the end
+      - `watch_seconds` sums the reported play time
+
+  2. Functions
+    - `record_playback(episode_id, event, watched_seconds)` adds one player
+      event to the current hour's bucket. `event` is `start`, `progress` or
+      `complete`; `progress` and `complete` carry the seconds played since the
+      last report, capped at the episode duration (or 4 hours when unknown).
+
+  3. Security
+    - RLS enabled on `episode_playback_stats`; staff can read, writes happen
+      only through `record_playback`
+*/
+
+CREATE TABLE IF NOT EXISTS public.episode_playback_stats (
+  episode_id uuid NOT NULL REFERENCES public.episodes (id) ON DELETE CASCADE,
+  bucket_start timestamptz NOT NULL,
+  series_id uuid NOT NULL REFERENCES public.series (id) ON DELETE CASCADE,
+  play_starts integer NOT NULL DEFAULT 0,
+  completions integer NOT NULL DEFAULT 0,
+  watch_seconds bigint NOT NULL DEFAULT 0,
+  PRIMARY KEY (episode_id, bucket_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_episode_playback_stats_series_bucket ON public.episode_playback_stats (series_id, bucket_start);
+CREATE INDEX IF NOT EXISTS idx_episode_playback_stats_bucket ON public.episode_playback_stats (bucket_start);
+
+ALTER TABLE public.episode_playback_stats ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view playback stats" ON public.episode_playback_stats;
+CREATE POLICY "Staff can view playback stats"
+  ON public.episode_playback_stats
+  FOR SELECT
+  TO authenticated
+  USING (public.has_admin_role());
+
+CREATE OR REPLACE FUNCTION public.record_playback(
+  p_episode_id uuid,
+  p_event text,
+  p_watched_seconds integer DEFAULT 0
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  ep public.episodes;
+  seconds integer;
+BEGIN
+  IF p_event NOT IN ('start', 'progress', 'complete') THEN
+    RAISE EXCEPTION 'Unknown playback event: %', p_event;
+  END IF;
+
+  SELECT * INTO ep FROM public.episodes WHERE id = p_episode_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Episode not found';
+  END IF;
+
+  -- Reports come straight from the browser; keep one report from skewing the totals
+  seconds := greatest(0, least(coalesce(p_watched_seconds, 0), coalesce(ep.duration_seconds, 4 * 60 * 60)));
+
+  INSERT INTO public.episode_playback_stats AS s (episode_id, bucket_start, series_id, play_starts, completions, watch_seconds)
+  VALUES (
+    ep.id,
+    date_trunc('hour', now()),
+    ep.series_id,
+    CASE WHEN p_event = 'start' THEN 1 ELSE 0 END,
+    CASE WHEN p_event = 'complete' THEN 1 ELSE 0 END,
+    CASE WHEN p_event = 'start' THEN 0 ELSE seconds END
+  )
+  ON CONFLICT (episode_id, bucket_start) DO UPDATE
+  SET play_starts = s.play_starts + EXCLUDED.play_starts,
+      completions = s.completions + EXCLUDED.completions,
+      watch_seconds = s.watch_seconds + EXCLUDED.watch_seconds;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_playback(uuid, text, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_playback(uuid, text, integer) TO anon, authenticated;
@@ -0,0 +1,134 @@
+/*
+  # Admin analytics
+
+  1. Functions
+    - `admin_analytics(from, to, series_id?, episode_id?)` returns the numbers
+      behind the admin Analytics tab for the inclusive date range (UTC days):
+      - `views_by_day`: counted views per day, zero-filled, optionally for one
+        series or episode
+      - `comments_by_day`: new comments per day, same filters
+      - `top_series`: the ten most viewed series of each category in the range
+      - `rating_distribution`: number of series per rounded average rating
+        (ratings carry no timestamp, so this ignores the range)
+      - `completion`: play starts, completions and watch time per episode from
+        `episode_playback_stats`, the 50 most started episodes first
+
+  2. Security
+    - Any staff role may read analytics
+*/
+
+CREATE OR REPLACE FUNCTION public.admin_analytics(
+  p_from date,
+  p_to date,
+  p_series_id uuid DEFAULT NULL,
+  p_episode_id uuid DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  range_start timestamptz := p_from::timestamptz;
+  range_end timestamptz := (p_to + 1)::timestamptz;
+  result json;
+BEGIN
+  PERFORM public.require_admin_role(ARRAY['owner', 'editor', 'moderator']::public.admin_role[]);
+
+  IF p_from IS NULL OR p_to IS NULL OR p_to < p_from THEN
+    RAISE EXCEPTION 'Invalid date range';
+  END IF;
+  IF p_to - p_from > 366 THEN
+    RAISE EXCEPTION 'Date range cannot exceed one year';
+  END IF;
+
+  WITH days AS (
+    SELECT d::date AS day
+    FROM generate_series(p_from::timestamp, p_to::timestamp, interval '1 day') AS d
+  ),
+  views AS (
+    SELECT created_at::date AS day, count(*) AS views
+    FROM public.view_events
+    WHERE created_at >= range_start AND created_at < range_end
+      AND (p_series_id IS NULL OR series_id = p_series_id)
+      AND (p_episode_id IS NULL OR episode_id = p_episode_id)
+    GROUP BY 1
+  ),
+  comment_counts AS (
+    SELECT created_at::date AS day, count(*) AS comments
+    FROM public.comments
+    WHERE created_at >= range_start AND created_at < range_end
+      AND (p_series_id IS NULL OR series_id = p_series_id)
+      AND (p_episode_id IS NULL OR episode_id = p_episode_id)
+    GROUP BY 1
+  ),
+  series_views AS (
+    SELECT s.id, s.title, s.category, count(e.id) AS views,
+           row_number() OVER (PARTITION BY s.category ORDER BY count(e.id) DESC, s.title) AS rank
+    FROM public.view_events e
+    JOIN public.series s ON s.id = e.series_id
+    WHERE e.created_at >= range_start AND e.created_at < range_end
+    GROUP BY s.id
+  ),
+  completion AS (
+    SELECT ep.id AS episode_id, ep.title AS episode_title, ep.season_number, ep.episode_number,
+           s.id AS series_id, s.title AS series_title,
+           sum(st.play_starts) AS play_starts, sum(st.completions) AS completions, sum(st.watch_seconds) AS watch_seconds
+    FROM public.episode_playback_stats st
+    JOIN public.episodes ep ON ep.id = st.episode_id
+    JOIN public.series s ON s.id = st.series_id
+    WHERE st.bucket_start >= range_start AND st.bucket_start < range_end
+      AND (p_series_id IS NULL OR st.series_id = p_series_id)
+      AND (p_episode_id IS NULL OR st.episode_id = p_episode_id)
+    GROUP BY ep.id, s.id
+    ORDER BY play_starts DESC
+    LIMIT 50
+  )
+  SELECT json_build_object(
+    'views_by_day', (
+      SELECT coalesce(json_agg(json_build_object('day', d.day, 'views', coalesce(v.views, 0)) ORDER BY d.day), '[]'::json)
+      FROM days d LEFT JOIN views v ON v.day = d.day
+    ),
+    'comments_by_day', (
+      SELECT coalesce(json_agg(json_build_object('day', d.day, 'comments', coalesce(c.comments, 0)) ORDER BY d.day), '[]'::json)
+      FROM days d LEFT JOIN comment_counts c ON c.day = d.day
+    ),
+    'top_series', (
+      SELECT coalesce(json_agg(json_build_object('series_id', id, 'title', title, 'category', category, 'views', views)
+                               ORDER BY category, rank), '[]'::json)
+      FROM series_views
+      WHERE rank <= 10
+    ),
+    'rating_distribution', (
+      SELECT coalesce(json_agg(json_build_object('rating', r.rating, 'series', coalesce(x.series, 0)) ORDER BY r.rating), '[]'::json)
+      FROM generate_series(1, 5) AS r (rating)
+      LEFT JOIN (
+        SELECT round(rating_sum::numeric / rating_count)::integer AS rating, count(*) AS series
+        FROM public.series
+        WHERE rating_count > 0
+        GROUP BY 1
+      ) x ON x.rating = r.rating
+    ),
+    'completion', (
+      SELECT coalesce(json_agg(json_build_object(
+        'episode_id', episode_id,
+        'episode_title', episode_title,
+        'season_number', season_number,
+        'episode_number', episode_number,
+        'series_id', series_id,
+        'series_title', series_title,
+        'play_starts', play_starts,
+        'completions', completions,
+        'watch_seconds', watch_seconds
+      ) ORDER BY play_starts DESC), '[]'::json)
+      FROM completion
+    )
+  ) INTO result;
+
+  RETURN result;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.admin_analytics(date, date, uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.admin_analytics(date, date, uuid, uuid) TO authenticated;
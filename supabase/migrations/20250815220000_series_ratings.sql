@@ -0,0 +1,132 @@
+/*
+  # One rating per viewer
+
+  1. New Tables
+    - `series_ratings`: the current 1-5 star rating of each viewer per series
+      - signed-in users are keyed by `user_id`, everyone else by the anonymous
+        `viewer_id` kept in their browser (the same id used for view counting)
+
+  2. Functions
+    - `rate_series(series_id, rating, viewer_id)` replaces `rate_series(series_id, rating)`.
+      It inserts or replaces the viewer's rating and adjusts `rating_sum` and
+      `rating_count` in the same transaction, so re-rating moves the average
+      instead of adding a vote. Returns `{ rating, average, count }`.
+    - `get_viewer_rating(series_id, viewer_id)` returns the viewer's current
+      rating, or null
+
+  3. Data
+    - Votes cast through the old function have no viewer and stay in the
+      aggregates as they are
+
+  4. Security
+    - RLS enabled on `series_ratings` with no policies: ratings are only read
+      and written through the functions above
+*/
+
+CREATE TABLE IF NOT EXISTS public.series_ratings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  series_id uuid NOT NULL REFERENCES public.series (id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users (id) ON DELETE CASCADE,
+  viewer_id uuid,
+  rating smallint NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT series_ratings_has_rater_check CHECK (user_id IS NOT NULL OR viewer_id IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS series_ratings_series_user_key
+  ON public.series_ratings (series_id, user_id) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS series_ratings_series_viewer_key
+  ON public.series_ratings (series_id, viewer_id) WHERE user_id IS NULL;
+
+DROP TRIGGER IF EXISTS trg_series_ratings_updated_at ON public.series_ratings;
+CREATE TRIGGER trg_series_ratings_updated_at
+  BEFORE UPDATE ON public.series_ratings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.series_ratings ENABLE ROW LEVEL SECURITY;
+
+DROP FUNCTION IF EXISTS public.rate_series(uuid, int);
+
+CREATE OR REPLACE FUNCTION public.rate_series(
+  p_series_id uuid,
+  p_rating integer,
+  p_viewer_id uuid
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  rater_user_id uuid := auth.uid();
+  previous public.series_ratings;
+  updated public.series;
+BEGIN
+  IF p_rating IS NULL OR p_rating < 1 OR p_rating > 5 THEN
+    RAISE EXCEPTION 'Rating must be between 1 and 5';
+  END IF;
+  IF rater_user_id IS NULL AND p_viewer_id IS NULL THEN
+    RAISE EXCEPTION 'Viewer id is required';
+  END IF;
+
+  -- Lock the series row so concurrent votes on it apply one after another
+  PERFORM 1 FROM public.series WHERE id = p_series_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Series not found';
+  END IF;
+
+  SELECT * INTO previous
+  FROM public.series_ratings
+  WHERE series_id = p_series_id
+    AND CASE WHEN rater_user_id IS NOT NULL THEN user_id = rater_user_id
+             ELSE user_id IS NULL AND viewer_id = p_viewer_id END;
+
+  IF previous.id IS NULL THEN
+    INSERT INTO public.series_ratings (series_id, user_id, viewer_id, rating)
+    VALUES (p_series_id, rater_user_id, p_viewer_id, p_rating);
+
+    UPDATE public.series
+    SET rating_sum = rating_sum + p_rating,
+        rating_count = rating_count + 1
+    WHERE id = p_series_id
+    RETURNING * INTO updated;
+  ELSE
+    UPDATE public.series_ratings SET rating = p_rating WHERE id = previous.id;
+
+    UPDATE public.series
+    SET rating_sum = rating_sum + p_rating - previous.rating
+    WHERE id = p_series_id
+    RETURNING * INTO updated;
+  END IF;
+
+  RETURN json_build_object(
+    'rating', p_rating,
+    'average', CASE WHEN updated.rating_count = 0 THEN 0 ELSE round(updated.rating_sum::numeric / updated.rating_count, 2) END,
+    'count', updated.rating_count
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_viewer_rating(
+  p_series_id uuid,
+  p_viewer_id uuid
+)
+RETURNS smallint
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT rating
+  FROM public.series_ratings
+  WHERE series_id = p_series_id
+    AND CASE WHEN auth.uid() IS NOT NULL THEN user_id = auth.uid()
+             ELSE user_id IS NULL AND viewer_id = p_viewer_id END;
+$$;
+
+REVOKE ALL ON FUNCTION public.rate_series(uuid, integer, uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_viewer_rating(uuid, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.rate_series(uuid, integer, uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_viewer_rating(uuid, uuid) TO anon, authenticated;
@@ -0,0 +1,123 @@
+/*
+  # Bayesian-weighted ratings
+
+  1. New Tables
+    - `rating_settings`: a single row holding the prior used for weighting
+      - `prior_mean`: the rating a series is assumed to have before any votes
+      - `min_votes`: how many votes it takes for a series' own average to
+        count as much as the prior
+
+  2. Table Changes
+    - Add `weighted_rating` to `series`:
+        (count / (count + min_votes)) * average + (min_votes / (count + min_votes)) * prior_mean
+      kept up to date by a trigger whenever `rating_sum` or `rating_count`
+      change, so a handful of 5-star votes no longer outranks hundreds of
+      slightly lower ones
+
+  3. Functions
+    - `weighted_rating(rating_sum, rating_count)` applies the formula with the
+      current settings
+    - `admin_update_rating_settings(prior_mean, min_votes)` (owners only)
+      changes the settings and recomputes every series
+
+  4. Security
+    - RLS enabled on `rating_settings`; anyone can read it, writes happen only
+      through `admin_update_rating_settings`
+*/
+
+CREATE TABLE IF NOT EXISTS public.rating_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  prior_mean numeric(3, 2) NOT NULL DEFAULT 3.0 CHECK (prior_mean BETWEEN 1 AND 5),
+  min_votes integer NOT NULL DEFAULT 10 CHECK (min_votes >= 0),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.rating_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.rating_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public can read rating settings" ON public.rating_settings;
+CREATE POLICY "Public can read rating settings"
+  ON public.rating_settings
+  FOR SELECT
+  USING (true);
+
+CREATE OR REPLACE FUNCTION public.weighted_rating(
+  p_rating_sum integer,
+  p_rating_count integer
+)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT round(
+    CASE
+      WHEN p_rating_count + s.min_votes = 0 THEN s.prior_mean
+      ELSE (p_rating_sum + s.min_votes * s.prior_mean) / (p_rating_count + s.min_votes)
+    END,
+    3
+  )
+  FROM public.rating_settings s
+  WHERE s.id;
+$$;
+
+ALTER TABLE public.series ADD COLUMN IF NOT EXISTS weighted_rating numeric(4, 3) NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.set_series_weighted_rating()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.weighted_rating := public.weighted_rating(NEW.rating_sum, NEW.rating_count);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_series_weighted_rating ON public.series;
+CREATE TRIGGER trg_series_weighted_rating
+  BEFORE INSERT OR UPDATE OF rating_sum, rating_count ON public.series
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_series_weighted_rating();
+
+UPDATE public.series SET weighted_rating = public.weighted_rating(rating_sum, rating_count);
+
+CREATE INDEX IF NOT EXISTS idx_series_weighted_rating ON public.series (weighted_rating DESC, rating_count DESC);
+
+CREATE OR REPLACE FUNCTION public.admin_update_rating_settings(
+  p_prior_mean numeric,
+  p_min_votes integer
+)
+RETURNS public.rating_settings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated_row public.rating_settings;
+BEGIN
+  PERFORM public.require_admin_role(ARRAY['owner']::public.admin_role[]);
+
+  IF p_prior_mean IS NULL OR p_prior_mean < 1 OR p_prior_mean > 5 THEN
+    RAISE EXCEPTION 'Prior mean must be between 1 and 5';
+  END IF;
+  IF p_min_votes IS NULL OR p_min_votes < 0 THEN
+    RAISE EXCEPTION 'Minimum votes cannot be negative';
+  END IF;
+
+  UPDATE public.rating_settings
+  SET prior_mean = p_prior_mean,
+      min_votes = p_min_votes,
+      updated_at = now()
+  WHERE id
+  RETURNING * INTO updated_row;
+
+  UPDATE public.series SET weighted_rating = public.weighted_rating(rating_sum, rating_count);
+
+  RETURN updated_row;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.admin_update_rating_settings(numeric, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.admin_update_rating_settings(numeric, integer) TO authenticated;
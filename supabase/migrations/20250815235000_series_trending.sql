@@ -0,0 +1,150 @@
+/*
+  # Trending series
+
+  1. New Tables
+    - `series_trending`: one row per series with its recent activity
+      - views, ratings (new or changed) and comments over the last 24 hours,
+        7 days and 30 days
+      - `score` weighs that activity, favouring the most recent window:
+          per signal: 3 * last_24h + last_7d + 0.25 * last_30d
+          score = views + 4 * ratings + 2 * comments (each per the above)
+        Windows are nested, so an event from the last day counts in all three
+      - `computed_at` is when the row was last refreshed
+
+  2. Functions
+    - `refresh_series_trending()` recomputes every row; it runs once here and
+      then every 15 minutes
+    - New series get an all-zero row straight away, so they show up before
+      the next refresh
+
+  3. Scheduling
+    - Enables `pg_cron` and schedules the `refresh-series-trending` job here.
+      Unlike the playlist sync, the refresh is plain SQL and needs no
+      per-environment URL or secret, so no edge function is involved
+
+  4. Security
+    - RLS enabled on `series_trending`; anyone can read it, only the refresh
+      function writes
+*/
+
+CREATE TABLE IF NOT EXISTS public.series_trending (
+  series_id uuid PRIMARY KEY REFERENCES public.series (id) ON DELETE CASCADE,
+  views_24h integer NOT NULL DEFAULT 0,
+  views_7d integer NOT NULL DEFAULT 0,
+  views_30d integer NOT NULL DEFAULT 0,
+  ratings_24h integer NOT NULL DEFAULT 0,
+  ratings_7d integer NOT NULL DEFAULT 0,
+  ratings_30d integer NOT NULL DEFAULT 0,
+  comments_24h integer NOT NULL DEFAULT 0,
+  comments_7d integer NOT NULL DEFAULT 0,
+  comments_30d integer NOT NULL DEFAULT 0,
+  score numeric NOT NULL DEFAULT 0,
+  computed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_series_trending_score ON public.series_trending (score DESC);
+CREATE INDEX IF NOT EXISTS idx_series_trending_views_7d ON public.series_trending (views_7d DESC);
+
+ALTER TABLE public.series_trending ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public can read trending" ON public.series_trending;
+CREATE POLICY "Public can read trending"
+  ON public.series_trending
+  FOR SELECT
+  USING (true);
+
+CREATE OR REPLACE FUNCTION public.refresh_series_trending()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH views AS (
+    SELECT series_id,
+           count(*) FILTER (WHERE created_at > now() - interval '24 hours') AS last_24h,
+           count(*) FILTER (WHERE created_at > now() - interval '7 days') AS last_7d,
+           count(*) AS last_30d
+    FROM public.view_events
+    WHERE created_at > now() - interval '30 days'
+    GROUP BY series_id
+  ),
+  ratings AS (
+    SELECT series_id,
+           count(*) FILTER (WHERE updated_at > now() - interval '24 hours') AS last_24h,
+           count(*) FILTER (WHERE updated_at > now() - interval '7 days') AS last_7d,
+           count(*) AS last_30d
+    FROM public.series_ratings
+    WHERE updated_at > now() - interval '30 days'
+    GROUP BY series_id
+  ),
+  comment_counts AS (
+    SELECT series_id,
+           count(*) FILTER (WHERE created_at > now() - interval '24 hours') AS last_24h,
+           count(*) FILTER (WHERE created_at > now() - interval '7 days') AS last_7d,
+           count(*) AS last_30d
+    FROM public.comments
+    WHERE created_at > now() - interval '30 days'
+    GROUP BY series_id
+  )
+  INSERT INTO public.series_trending AS t (
+    series_id,
+    views_24h, views_7d, views_30d,
+    ratings_24h, ratings_7d, ratings_30d,
+    comments_24h, comments_7d, comments_30d,
+    score, computed_at
+  )
+  SELECT s.id,
+         coalesce(v.last_24h, 0), coalesce(v.last_7d, 0), coalesce(v.last_30d, 0),
+         coalesce(r.last_24h, 0), coalesce(r.last_7d, 0), coalesce(r.last_30d, 0),
+         coalesce(c.last_24h, 0), coalesce(c.last_7d, 0), coalesce(c.last_30d, 0),
+         (3 * coalesce(v.last_24h, 0) + coalesce(v.last_7d, 0) + 0.25 * coalesce(v.last_30d, 0))
+           + 4 * (3 * coalesce(r.last_24h, 0) + coalesce(r.last_7d, 0) + 0.25 * coalesce(r.last_30d, 0))
+           + 2 * (3 * coalesce(c.last_24h, 0) + coalesce(c.last_7d, 0) + 0.25 * coalesce(c.last_30d, 0)),
+         now()
+  FROM public.series s
+  LEFT JOIN views v ON v.series_id = s.id
+  LEFT JOIN ratings r ON r.series_id = s.id
+  LEFT JOIN comment_counts c ON c.series_id = s.id
+  ON CONFLICT (series_id) DO UPDATE
+  SET views_24h = EXCLUDED.views_24h,
+      views_7d = EXCLUDED.views_7d,
+      views_30d = EXCLUDED.views_30d,
+      ratings_24h = EXCLUDED.ratings_24h,
+      ratings_7d = EXCLUDED.ratings_7d,
+      ratings_30d = EXCLUDED.ratings_30d,
+      comments_24h = EXCLUDED.comments_24h,
+      comments_7d = EXCLUDED.comments_7d,
+      comments_30d = EXCLUDED.comments_30d,
+      score = EXCLUDED.score,
+      computed_at = EXCLUDED.computed_at;
+$$;
+
+CREATE OR REPLACE FUNCTION public.insert_series_trending_row()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.series_trending (series_id)
+  VALUES (NEW.id)
+  ON CONFLICT (series_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_series_trending_row ON public.series;
+CREATE TRIGGER trg_series_trending_row
+  AFTER INSERT ON public.series
+  FOR EACH ROW
+  EXECUTE FUNCTION public.insert_series_trending_row();
+
+REVOKE ALL ON FUNCTION public.refresh_series_trending() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.insert_series_trending_row() FROM PUBLIC, anon, authenticated;
+
+SELECT public.refresh_series_trending();
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- Re-scheduling under the same job name replaces the existing job
+SELECT cron.schedule('refresh-series-trending', '*/15 * * * *', 'select public.refresh_series_trending()');
@@ -0,0 +1,83 @@
+/*
+  # Resume playback for signed-in users
+
+  1. New Tables
+    - `playback_positions`: the last position each signed-in user reached in
+      each episode, with the video length at the time
+      - anonymous viewers keep theirs in the browser instead
+
+  2. Functions
+    - `save_playback_position(episode_id, position_seconds, duration_seconds)`
+      upserts the caller's position; `series_id` is filled from the episode so
+      a series page can load every position with one query
+
+  3. Security
+    - RLS enabled on `playback_positions`; users can read and delete only their
+      own rows, writes happen through `save_playback_position`
+*/
+
+CREATE TABLE IF NOT EXISTS public.playback_positions (
+  user_id uuid NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  episode_id uuid NOT NULL REFERENCES public.episodes (id) ON DELETE CASCADE,
+  series_id uuid NOT NULL REFERENCES public.series (id) ON DELETE CASCADE,
+  position_seconds integer NOT NULL CHECK (position_seconds >= 0),
+  duration_seconds integer NOT NULL CHECK (duration_seconds >= 0),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, episode_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_playback_positions_user_series ON public.playback_positions (user_id, series_id);
+
+ALTER TABLE public.playback_positions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own playback positions" ON public.playback_positions;
+CREATE POLICY "Users can read own playback positions"
+  ON public.playback_positions
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete own playback positions" ON public.playback_positions;
+CREATE POLICY "Users can delete own playback positions"
+  ON public.playback_positions
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION public.save_playback_position(
+  p_episode_id uuid,
+  p_position_seconds integer,
+  p_duration_seconds integer
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller uuid := auth.uid();
+  episode_series_id uuid;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'Sign in to save playback positions';
+  END IF;
+  IF p_position_seconds IS NULL OR p_position_seconds < 0 OR p_duration_seconds IS NULL OR p_duration_seconds < 0 THEN
+    RAISE EXCEPTION 'Position and duration cannot be negative';
+  END IF;
+
+  SELECT series_id INTO episode_series_id FROM public.episodes WHERE id = p_episode_id;
+  IF episode_series_id IS NULL THEN
+    RAISE EXCEPTION 'Episode not found';
+  END IF;
+
+  INSERT INTO public.playback_positions (user_id, episode_id, series_id, position_seconds, duration_seconds)
+  VALUES (caller, p_episode_id, episode_series_id, p_position_seconds, p_duration_seconds)
+  ON CONFLICT (user_id, episode_id) DO UPDATE
+  SET position_seconds = EXCLUDED.position_seconds,
+      duration_seconds = EXCLUDED.duration_seconds,
+      updated_at = now();
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.save_playback_position(uuid, integer, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_playback_position(uuid, integer, integer) TO authenticated;
@@ -0,0 +1,230 @@
+/*
+  # Episode mirrors
+
+  1. New Tables
+    - `episode_sources`: any number of playable copies ("mirrors") of an episode
+      - `provider` is a player provider id such as `dailymotion` or `youtube`
+      - `priority`: lower plays first; the player falls back down the list when
+        a mirror fails or is blocked in the viewer's region
+      - optional `language` (e.g. `en`, `pt-BR`) and free-text `label`
+
+  2. Legacy columns
+    - `episodes.dailymotion_video_id` and `episodes.youtube_video_id` stay, and a
+      trigger mirrors them into `episode_sources` (Dailymotion at priority 0,
+      YouTube at 1, the order the player used to prefer), so episode creation,
+      playlist imports and syncs keep working unchanged
+    - Existing episodes are backfilled the same way
+    - Editing or deleting a mirror that came from a legacy column updates or
+      clears that column too, so playlist syncs see the change
+    - `dailymotion_video_id` stays nullable and `episodes_has_video_check` is
+      dropped: an episode may now be playable only through mirrors, and
+      `admin_delete_episode_source` keeps at least one of those
+
+  3. Functions
+    - `admin_save_episode_source(...)` adds a mirror, or updates one when
+      `p_source_id` is given (owners and editors)
+    - `admin_delete_episode_source(source_id)` (owners and editors); refuses
+      to delete an episode's last mirror
+
+  4. Security
+    - RLS enabled on `episode_sources`; anyone can read it, writes happen
+      through the functions above and the legacy column trigger
+*/
+
+-- Episodes may be playable only through mirrors, so either legacy column can be cleared
+ALTER TABLE public.episodes ALTER COLUMN dailymotion_video_id DROP NOT NULL;
+ALTER TABLE public.episodes DROP CONSTRAINT IF EXISTS episodes_has_video_check;
+
+CREATE TABLE IF NOT EXISTS public.episode_sources (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  episode_id uuid NOT NULL REFERENCES public.episodes (id) ON DELETE CASCADE,
+  provider text NOT NULL CHECK (provider ~ '^[a-z0-9_-]+$'),
+  video_id text NOT NULL CHECK (length(trim(video_id)) > 0),
+  priority integer NOT NULL DEFAULT 0,
+  language text,
+  label text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT episode_sources_episode_provider_video_key UNIQUE (episode_id, provider, video_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_episode_sources_episode_priority ON public.episode_sources (episode_id, priority);
+
+DROP TRIGGER IF EXISTS trg_episode_sources_updated_at ON public.episode_sources;
+CREATE TRIGGER trg_episode_sources_updated_at
+  BEFORE UPDATE ON public.episode_sources
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.episode_sources ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public can read episode sources" ON public.episode_sources;
+CREATE POLICY "Public can read episode sources"
+  ON public.episode_sources
+  FOR SELECT
+  USING (true);
+
+CREATE OR REPLACE FUNCTION public.sync_legacy_episode_sources()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.dailymotion_video_id IS DISTINCT FROM NEW.dailymotion_video_id AND OLD.dailymotion_video_id IS NOT NULL THEN
+      DELETE FROM public.episode_sources
+      WHERE episode_id = NEW.id AND provider = 'dailymotion' AND video_id = OLD.dailymotion_video_id;
+    END IF;
+    IF OLD.youtube_video_id IS DISTINCT FROM NEW.youtube_video_id AND OLD.youtube_video_id IS NOT NULL THEN
+      DELETE FROM public.episode_sources
+      WHERE episode_id = NEW.id AND provider = 'youtube' AND video_id = OLD.youtube_video_id;
+    END IF;
+  END IF;
+
+  IF NEW.dailymotion_video_id IS NOT NULL THEN
+    INSERT INTO public.episode_sources (episode_id, provider, video_id, priority)
+    VALUES (NEW.id, 'dailymotion', NEW.dailymotion_video_id, 0)
+    ON CONFLICT (episode_id, provider, video_id) DO NOTHING;
+  END IF;
+  IF NEW.youtube_video_id IS NOT NULL THEN
+    INSERT INTO public.episode_sources (episode_id, provider, video_id, priority)
+    VALUES (NEW.id, 'youtube', NEW.youtube_video_id, 1)
+    ON CONFLICT (episode_id, provider, video_id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_legacy_episode_sources ON public.episodes;
+CREATE TRIGGER trg_sync_legacy_episode_sources
+  AFTER INSERT OR UPDATE OF dailymotion_video_id, youtube_video_id ON public.episodes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_legacy_episode_sources();
+
+INSERT INTO public.episode_sources (episode_id, provider, video_id, priority)
+SELECT id, 'dailymotion', dailymotion_video_id, 0
+FROM public.episodes
+WHERE dailymotion_video_id IS NOT NULL
+UNION ALL
+SELECT id, 'youtube', youtube_video_id, 1
+FROM public.episodes
+WHERE youtube_video_id IS NOT NULL
+ON CONFLICT (episode_id, provider, video_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.admin_save_episode_source(
+  p_episode_id uuid,
+  p_provider text,
+  p_video_id text,
+  p_priority integer DEFAULT 0,
+  p_language text DEFAULT NULL,
+  p_label text DEFAULT NULL,
+  p_source_id uuid DEFAULT NULL
+)
+RETURNS public.episode_sources
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  previous public.episode_sources;
+  saved public.episode_sources;
+BEGIN
+  PERFORM public.require_admin_role(ARRAY['owner', 'editor']::public.admin_role[]);
+
+  IF p_video_id IS NULL OR length(trim(p_video_id)) = 0 THEN
+    RAISE EXCEPTION 'Video id is required';
+  END IF;
+
+  IF p_source_id IS NULL THEN
+    INSERT INTO public.episode_sources (episode_id, provider, video_id, priority, language, label)
+    VALUES (p_episode_id, lower(trim(p_provider)), trim(p_video_id), coalesce(p_priority, 0), nullif(trim(p_language), ''), nullif(trim(p_label), ''))
+    RETURNING * INTO saved;
+  ELSE
+    SELECT * INTO previous
+    FROM public.episode_sources
+    WHERE id = p_source_id AND episode_id = p_episode_id
+    FOR UPDATE;
+
+    IF previous.id IS NULL THEN
+      RAISE EXCEPTION 'Source not found';
+    END IF;
+
+    UPDATE public.episode_sources
+    SET provider = lower(trim(p_provider)),
+        video_id = trim(p_video_id),
+        priority = coalesce(p_priority, 0),
+        language = nullif(trim(p_language), ''),
+        label = nullif(trim(p_label), '')
+    WHERE id = p_source_id
+    RETURNING * INTO saved;
+
+    -- A mirror that came from a legacy column moves that column with it, or
+    -- clears it when it now points at another provider
+    IF previous.provider = 'dailymotion' THEN
+      UPDATE public.episodes
+      SET dailymotion_video_id = CASE WHEN saved.provider = 'dailymotion' THEN saved.video_id END
+      WHERE id = p_episode_id
+        AND dailymotion_video_id = previous.video_id
+        AND dailymotion_video_id IS DISTINCT FROM (CASE WHEN saved.provider = 'dailymotion' THEN saved.video_id END);
+    ELSIF previous.provider = 'youtube' THEN
+      UPDATE public.episodes
+      SET youtube_video_id = CASE WHEN saved.provider = 'youtube' THEN saved.video_id END
+      WHERE id = p_episode_id
+        AND youtube_video_id = previous.video_id
+        AND youtube_video_id IS DISTINCT FROM (CASE WHEN saved.provider = 'youtube' THEN saved.video_id END);
+    END IF;
+  END IF;
+
+  RETURN saved;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_delete_episode_source(
+  p_source_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.episode_sources;
+BEGIN
+  PERFORM public.require_admin_role(ARRAY['owner', 'editor']::public.admin_role[]);
+
+  SELECT * INTO target FROM public.episode_sources WHERE id = p_source_id;
+  IF target.id IS NULL THEN
+    RAISE EXCEPTION 'Source not found';
+  END IF;
+
+  -- Lock the episode so concurrent deletes cannot remove its last two mirrors together
+  PERFORM 1 FROM public.episodes WHERE id = target.episode_id FOR UPDATE;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.episode_sources WHERE episode_id = target.episode_id AND id <> target.id
+  ) THEN
+    RAISE EXCEPTION 'Cannot delete the last mirror of an episode; add another one first';
+  END IF;
+
+  -- Clear the legacy column this mirror came from, so playlist syncs see it gone
+  IF target.provider = 'dailymotion' THEN
+    UPDATE public.episodes
+    SET dailymotion_video_id = NULL
+    WHERE id = target.episode_id AND dailymotion_video_id = target.video_id;
+  ELSIF target.provider = 'youtube' THEN
+    UPDATE public.episodes
+    SET youtube_video_id = NULL
+    WHERE id = target.episode_id AND youtube_video_id = target.video_id;
+  END IF;
+
+  DELETE FROM public.episode_sources WHERE id = target.id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.sync_legacy_episode_sources() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.admin_save_episode_source(uuid, text, text, integer, text, text, uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.admin_delete_episode_source(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.admin_save_episode_source(uuid, text, text, integer, text, text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_delete_episode_source(uuid) TO authenticated;